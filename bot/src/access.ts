@@ -0,0 +1,180 @@
+import type { Database } from 'bun:sqlite'
+import type { AudioJob } from './queue'
+import { getConfig } from './config'
+import { getDb as getSharedDb } from './db'
+
+const HOUR_MS = 3_600_000
+const DAY_MS = 86_400_000
+// Longer than any limit window, including a 31-day month.
+const USAGE_RETENTION_MS = 40 * DAY_MS
+
+const PRIVATE_REFUSAL = 'Sorry, this bot is private. Ask the owner to add you to the allowlist.'
+
+export function isAdmin(userId: number | undefined) {
+  return userId !== undefined && getConfig().access.adminUserIds.includes(userId)
+}
+
+export function listAdminIds() {
+  return [...getConfig().access.adminUserIds]
+}
+
+function getDb() {
+  return getSharedDb('usage', createUsageTable)
+}
+
+function createUsageTable(db: Database) {
+  db.run(`CREATE TABLE IF NOT EXISTS usage (
+    job_id INTEGER PRIMARY KEY,
+    user_id INTEGER,
+    chat_id INTEGER NOT NULL,
+    audio_sec REAL NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL
+  )`)
+  db.run('CREATE INDEX IF NOT EXISTS usage_user ON usage (user_id, created_at)')
+  db.run('CREATE INDEX IF NOT EXISTS usage_created ON usage (created_at)')
+  db.run(`CREATE TABLE IF NOT EXISTS llm_usage (
+    user_id INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  )`)
+  db.run('CREATE INDEX IF NOT EXISTS llm_usage_user ON llm_usage (user_id, created_at)')
+}
+
+function isAllowed(userId: number | undefined, chatId: number) {
+  const { allowedUserIds, allowedChatIds } = getConfig().access
+  if (!allowedUserIds.length && !allowedChatIds.length)
+    return true
+
+  return (userId !== undefined && allowedUserIds.includes(userId))
+    || allowedChatIds.includes(chatId)
+}
+
+// Job ids start at 1, so the default excludes nothing.
+function usageSince(since: number, userId?: number, excludeJobId = 0) {
+  const row = userId === undefined
+    ? getDb()
+        .query<{ jobs: number, audioSec: number | null }, [number, number]>(
+          'SELECT COUNT(*) AS jobs, SUM(audio_sec) AS audioSec FROM usage WHERE created_at >= ? AND job_id != ?',
+        )
+        .get(since, excludeJobId)
+    : getDb()
+        .query<{ jobs: number, audioSec: number | null }, [number, number, number]>(
+          'SELECT COUNT(*) AS jobs, SUM(audio_sec) AS audioSec FROM usage WHERE user_id = ? AND created_at >= ? AND job_id != ?',
+        )
+        .get(userId, since, excludeJobId)
+
+  return { jobs: row?.jobs ?? 0, audioSec: row?.audioSec ?? 0 }
+}
+
+function startOfMonth(now: Date) {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+}
+
+/**
+ * Returns a user-facing refusal when the allowlist, the per-user limits or the
+ * monthly budget rule the job out, else null. Admins skip the allowlist and
+ * per-user limits. Jobs without a known duration count as 0 here; handleAudio
+ * repeats the audio checks with checkMeasuredAudio once it has probed them.
+ */
+export function checkAccess(job: AudioJob) {
+  const { jobsPerHour } = getConfig().access
+  const admin = isAdmin(job.userId)
+  if (!admin && !isAllowed(job.userId, job.chatId))
+    return PRIVATE_REFUSAL
+
+  const now = Date.now()
+  if (!admin && job.userId !== undefined) {
+    const lastHour = usageSince(now - HOUR_MS, job.userId)
+    if (jobsPerHour > 0 && lastHour.jobs >= jobsPerHour)
+      return `You have reached the limit of ${jobsPerHour} transcriptions per hour. Please try again later.`
+  }
+
+  return checkAudioBudget(job, job.duration ?? 0, now)
+}
+
+/**
+ * The daily and monthly audio checks of checkAccess, with the duration
+ * measured after conversion instead of the one Telegram declared. The job's
+ * own usage row is left out, since it still holds the declared duration.
+ */
+export function checkMeasuredAudio(job: AudioJob & { id: number }, audioSec: number) {
+  return checkAudioBudget(job, Number.isFinite(audioSec) ? audioSec : 0, Date.now(), job.id)
+}
+
+function checkAudioBudget(job: AudioJob, audioSec: number, now: number, excludeJobId?: number) {
+  const { audioMinutesPerDay, monthlyAudioMinutes } = getConfig().access
+
+  if (!isAdmin(job.userId) && job.userId !== undefined && audioMinutesPerDay > 0) {
+    const lastDay = usageSince(now - DAY_MS, job.userId, excludeJobId)
+    if ((lastDay.audioSec + audioSec) / 60 > audioMinutesPerDay) {
+      const left = Math.max(0, audioMinutesPerDay - lastDay.audioSec / 60)
+      return `You have ${left.toFixed(1)} of your ${audioMinutesPerDay} daily audio minutes left, not enough for this message. Please try again tomorrow.`
+    }
+  }
+
+  if (monthlyAudioMinutes > 0) {
+    const month = usageSince(startOfMonth(new Date(now)), undefined, excludeJobId)
+    if ((month.audioSec + audioSec) / 60 > monthlyAudioMinutes)
+      return 'The monthly transcription budget is used up. Please try again next month.'
+  }
+
+  return null
+}
+
+/**
+ * Refusal for a post-processing button press, else null: the same allowlist
+ * as checkAccess, then the per-user hourly limit on LLM calls. Admins skip
+ * both.
+ */
+export function checkLlmAccess(userId: number, chatId: number) {
+  if (isAdmin(userId))
+    return null
+  if (!isAllowed(userId, chatId))
+    return PRIVATE_REFUSAL
+
+  const { llmCallsPerHour } = getConfig().access
+  if (llmCallsPerHour <= 0)
+    return null
+
+  const { calls } = getDb()
+    .query<{ calls: number }, [number, number]>('SELECT COUNT(*) AS calls FROM llm_usage WHERE user_id = ? AND created_at >= ?')
+    .get(userId, Date.now() - HOUR_MS)!
+  return calls >= llmCallsPerHour
+    ? `You have reached the limit of ${llmCallsPerHour} summaries and translations per hour. Please try again later.`
+    : null
+}
+
+/** Counts one LLM call against the user; answers served from the result cache are free. */
+export function recordLlmUsage(userId: number) {
+  const now = Date.now()
+  getDb().run('DELETE FROM llm_usage WHERE created_at < ?', [now - HOUR_MS])
+  getDb().run('INSERT INTO llm_usage (user_id, created_at) VALUES (?, ?)', [userId, now])
+}
+
+export function recordUsage(jobId: number, job: AudioJob) {
+  getDb().run('DELETE FROM usage WHERE created_at < ?', [Date.now() - USAGE_RETENTION_MS])
+  getDb().run(
+    'INSERT OR REPLACE INTO usage (job_id, user_id, chat_id, audio_sec, created_at) VALUES (?, ?, ?, ?, ?)',
+    [jobId, job.userId ?? null, job.chatId, job.duration ?? 0, Date.now()],
+  )
+}
+
+/** Replaces the declared duration with the one measured after conversion. */
+export function updateUsageAudioSec(jobId: number, audioSec: number) {
+  if (!Number.isFinite(audioSec) || audioSec < 0)
+    return
+
+  getDb().run('UPDATE usage SET audio_sec = ? WHERE job_id = ?', [audioSec, jobId])
+}
+
+/** Drops the usage of a job that was cancelled before it started. */
+export function releaseUsage(jobId: number) {
+  getDb().run('DELETE FROM usage WHERE job_id = ?', [jobId])
+}
+
+/** Chats that submitted at least one job within the usage retention window. */
+export function listRecentChatIds() {
+  return getDb()
+    .query<{ chat_id: number }, []>('SELECT DISTINCT chat_id FROM usage')
+    .all()
+    .map(row => row.chat_id)
+}
@@ -0,0 +1,178 @@
+import type { Api, Bot } from 'grammy'
+import type { BotCommand } from 'grammy/types'
+import process from 'node:process'
+import { isAdmin, listAdminIds, listRecentChatIds } from './access'
+import { describeConfig, STT_PROVIDER_NAMES } from './config'
+import { delay } from './http'
+import { log } from './logger'
+import { getQueueSummary } from './queue'
+import { parseLanguageCode, updateChatSettings } from './settings'
+import { getSttProvider, setSttProvider } from './stt'
+
+const BROADCAST_DELAY_MS = 50
+const STATUS_ERROR_MAX_CHARS = 300
+
+export const ADMIN_COMMANDS: BotCommand[] = [
+  { command: 'status', description: 'Queue, uptime and last error' },
+  { command: 'config', description: 'Effective settings, secrets redacted' },
+  { command: 'setmodel', description: 'Switch STT provider/model' },
+  { command: 'setlang', description: 'Set the language for this chat' },
+  { command: 'pause', description: 'Stop accepting new jobs' },
+  { command: 'resume', description: 'Accept new jobs again' },
+  { command: 'broadcast', description: 'Message all recent chats' },
+]
+
+let intakePaused = false
+let broadcasting = false
+
+export function isIntakePaused() {
+  return intakePaused
+}
+
+/**
+ * Registers the admin-only commands. Non-admins fall through to the regular
+ * handlers, which ignore unknown commands, so the commands stay invisible.
+ */
+export function registerAdminCommands(bot: Bot) {
+  const admin = bot.filter(ctx => isAdmin(ctx.from?.id))
+
+  admin.command('status', async (ctx) => {
+    const summary = getQueueSummary()
+    const lines = [
+      `Intake: ${intakePaused ? 'paused' : 'open'}`,
+      `Queue: ${summary.queued} queued, ${summary.running} running`,
+      `Uptime: ${formatUptime(process.uptime())}`,
+      `STT: ${getSttProvider().key}`,
+    ]
+
+    const failure = summary.lastFailure
+    lines.push(failure
+      ? `Last error: job #${failure.id} at ${failure.updatedAt}: ${(failure.error ?? 'unknown').slice(0, STATUS_ERROR_MAX_CHARS)}`
+      : 'Last error: none')
+
+    await ctx.reply(lines.join('\n'))
+  })
+
+  // Private chat only: even redacted, the settings describe the deployment.
+  admin.command('config', async (ctx) => {
+    if (ctx.chat.type !== 'private') {
+      await ctx.reply('Use /config in a private chat with me.')
+      return
+    }
+
+    const lines = describeConfig()
+    const provider = getSttProvider()
+    lines.push('', `Active STT (after /setmodel): ${provider.key}`)
+    await ctx.reply(lines.join('\n'))
+  })
+
+  admin.command('setmodel', async (ctx) => {
+    const [first, second] = ctx.match.trim().split(/\s+/).filter(Boolean)
+    const current = getSttProvider()
+    if (!first) {
+      await ctx.reply(`Current: ${current.key}\nUsage: /setmodel <${STT_PROVIDER_NAMES.join('|')}> [model] or /setmodel <model>`)
+      return
+    }
+
+    const isProvider = (STT_PROVIDER_NAMES as readonly string[]).includes(first.toLowerCase())
+    const name = isProvider ? first : current.name
+    const model = isProvider ? second : first
+
+    try {
+      const provider = setSttProvider(name, model)
+      log.info('stt provider switched', { from: current.key, to: provider.key, by: ctx.from?.id })
+      await ctx.reply(`STT switched to ${provider.key}. This lasts until the next restart.`)
+    }
+    catch (error) {
+      await ctx.reply(`Could not switch: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+
+  admin.command('setlang', async (ctx) => {
+    const arg = ctx.match.trim()
+    const language = arg ? parseLanguageCode(arg) : undefined
+    if (language === undefined) {
+      await ctx.reply('Usage: /setlang <language code, e.g. en, de, ita> or /setlang auto')
+      return
+    }
+
+    updateChatSettings(ctx.chat.id, { language })
+    await ctx.reply(language
+      ? `Transcriptions in this chat will use language "${language}".`
+      : 'Transcriptions in this chat will auto-detect the language.')
+  })
+
+  admin.command('pause', async (ctx) => {
+    intakePaused = true
+    log.info('intake paused', { by: ctx.from?.id })
+    await ctx.reply('Intake paused. Queued jobs will still finish. Use /resume to reopen.')
+  })
+
+  admin.command('resume', async (ctx) => {
+    intakePaused = false
+    log.info('intake resumed', { by: ctx.from?.id })
+    await ctx.reply('Intake resumed.')
+  })
+
+  admin.command('broadcast', async (ctx) => {
+    const text = ctx.match.trim()
+    if (!text) {
+      await ctx.reply('Usage: /broadcast <message>')
+      return
+    }
+    if (broadcasting) {
+      await ctx.reply('A broadcast is already running. Please wait for its report.')
+      return
+    }
+
+    const chatIds = listRecentChatIds()
+    await ctx.reply(`Sending to ${chatIds.length} chats. I will report back when done.`)
+    // Sends are spaced out, so a long list would hold up every other update if awaited here.
+    void runBroadcast(ctx.api, ctx.chat.id, chatIds, text)
+  })
+}
+
+/** Runs in the background and reports to the admin's chat; never throws. */
+async function runBroadcast(api: Api, reportChatId: number, chatIds: number[], text: string) {
+  broadcasting = true
+  let sent = 0
+  try {
+    for (const chatId of chatIds) {
+      try {
+        await api.sendMessage(chatId, text)
+        sent++
+      }
+      catch (error) {
+        log.warn('broadcast failed', { chatId, error })
+      }
+      await delay(BROADCAST_DELAY_MS)
+    }
+  }
+  finally {
+    broadcasting = false
+  }
+
+  log.info('broadcast done', { sent, chats: chatIds.length })
+  await api.sendMessage(reportChatId, `Broadcast sent to ${sent} of ${chatIds.length} chats.`)
+    .catch(error => log.warn('broadcast report failed', { error }))
+}
+
+/** Shows the admin commands in the command menu of each admin's private chat. */
+export async function setAdminCommandMenus(api: Api, publicCommands: BotCommand[]) {
+  for (const chatId of listAdminIds()) {
+    await api.setMyCommands(
+      [...publicCommands, ...ADMIN_COMMANDS],
+      { scope: { type: 'chat', chat_id: chatId } },
+    ).catch((error) => {
+      log.warn('setMyCommands failed', { chatId, error })
+    })
+  }
+}
+
+function formatUptime(seconds: number) {
+  const total = Math.floor(seconds)
+  const days = Math.floor(total / 86_400)
+  const hours = Math.floor((total % 86_400) / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  return days ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m`
+}
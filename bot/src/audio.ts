@@ -1,34 +1,368 @@
+import type { AudioCodec } from './config'
 import { spawn } from 'node:child_process'
 import { promises as fs } from 'node:fs'
 import path from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { getConfig } from './config'
+import { JobError } from './errors'
+import { log } from './logger'
 
-export async function oggToWav16kMono(inputOgg: string, outDir: string) {
-  const outWav = path.join(outDir, `${path.basename(inputOgg)}.wav`)
+const SAMPLE_RATE = 16000
+const WAV_BYTES_PER_SEC = SAMPLE_RATE * 2
+const WAV_HEADER_BYTES = 44
+const SILENCE_THRESHOLD_DB = -50
+const SILENCE_MIN_SEC = 0.5
+// Kept around trimmed speech so the first and last words are not clipped.
+const SILENCE_PAD_SEC = 0.25
+const OPUS_BITRATE = '24k'
 
+const CODEC_EXTENSIONS: Record<AudioCodec, string> = {
+  wav: 'wav',
+  flac: 'flac',
+  opus: 'ogg',
+}
+
+const CODEC_ARGS: Record<AudioCodec, string[]> = {
+  wav: ['-c', 'copy'],
+  flac: ['-c:a', 'flac'],
+  opus: ['-c:a', 'libopus', '-b:a', OPUS_BITRATE],
+}
+
+// Container tags use ISO 639-2; chat settings use 639-1 (see MENU_LANGUAGES).
+const ISO_639_2: Record<string, string[]> = {
+  en: ['eng'],
+  it: ['ita'],
+  de: ['deu', 'ger'],
+  fr: ['fra', 'fre'],
+  es: ['spa'],
+  pt: ['por'],
+  nl: ['nld', 'dut'],
+  pl: ['pol'],
+  ru: ['rus'],
+  uk: ['ukr'],
+}
+
+export interface AudioSegment {
+  path: string
+  index: number
+  /** Seconds from the start of the original recording, also after silence trimming. */
+  startSec: number
+  durationSec: number
+}
+
+export interface AudioStream {
+  /** Absolute stream index, usable as `-map 0:<index>`. */
+  index: number
+  codec: string
+  channels: number
+  language?: string
+  isDefault: boolean
+  /** Commentary or audio description rather than the main soundtrack. */
+  isSecondary: boolean
+}
+
+export interface MediaProbe {
+  durationSec?: number
+  audioStreams: AudioStream[]
+}
+
+export interface PreprocessOptions {
+  trimSilence: boolean
+  loudnorm: boolean
+  codec: AudioCodec
+  /** Long recordings are sent in segments of this length, each overlapping the next. */
+  chunkSec: number
+  chunkOverlapSec: number
+  /** Preferred audio track language (ISO 639-1), e.g. the chat's language setting. */
+  language?: string
+}
+
+export interface ConvertedAudio {
+  /** Empty when trimming found nothing but silence. */
+  segments: AudioSegment[]
+  /** Length of the whole recording, before trimming. */
+  durationSec: number
+  probe: MediaProbe | null
+}
+
+/** The configured preprocessing, with the chat's language for track selection. */
+export function preprocessOptions(language?: string): PreprocessOptions {
+  return { ...getConfig().audio, language }
+}
+
+/** Probes `inputPath`, picks its audio track, then converts, trims and splits it. */
+export async function prepareAudio(
+  inputPath: string,
+  outDir: string,
+  options: PreprocessOptions,
+  signal?: AbortSignal,
+): Promise<ConvertedAudio> {
+  const probe = await probeMedia(inputPath, signal)
+  const stream = pickAudioStream(probe.audioStreams, options.language)
+  if (!stream)
+    throw new JobError('no_audio', `no audio stream in ${inputPath}`)
+
+  return convert(inputPath, outDir, options, stream.index, probe, signal)
+}
+
+/**
+ * Same as prepareAudio, but feeds ffmpeg's stdin from `input` (e.g. a
+ * download in progress) so conversion runs while bytes arrive. ffmpeg picks
+ * the track itself; once `inputPath` holds the whole file it is probed, and
+ * converted again if a better track exists. Errors thrown by `input` abort
+ * the conversion and are rethrown as-is.
+ */
+export async function prepareAudioStream(
+  input: AsyncIterable<Uint8Array>,
+  inputPath: string,
+  outDir: string,
+  options: PreprocessOptions,
+  signal?: AbortSignal,
+): Promise<ConvertedAudio> {
+  const converted = await convert('pipe:0', outDir, options, null, null, signal, input)
+
+  let probe: MediaProbe
+  try {
+    probe = await probeMedia(inputPath, signal)
+  }
+  catch (error) {
+    if (signal?.aborted)
+      throw error
+    log.warn('ffprobe failed, keeping ffmpeg\'s track choice', { error })
+    return converted
+  }
+
+  const picked = pickAudioStream(probe.audioStreams, options.language)
+  if (picked && picked.index !== ffmpegDefaultStream(probe.audioStreams)?.index) {
+    await Promise.all(converted.segments.map(segment => fs.rm(segment.path, { force: true })))
+    return convert(inputPath, outDir, options, picked.index, probe, signal)
+  }
+
+  return { ...converted, probe, durationSec: probe.durationSec ?? converted.durationSec }
+}
+
+export async function probeMedia(inputPath: string, signal?: AbortSignal): Promise<MediaProbe> {
+  const { stdout } = await runTool('ffprobe', [
+    '-v',
+    'error',
+    '-print_format',
+    'json',
+    '-show_format',
+    '-show_streams',
+    inputPath,
+  ], { signal })
+
+  const data = JSON.parse(stdout) as any
+  const durationSec = Number(data?.format?.duration)
+  const streams: any[] = Array.isArray(data?.streams) ? data.streams : []
+
+  return {
+    durationSec: Number.isFinite(durationSec) && durationSec > 0 ? durationSec : undefined,
+    audioStreams: streams
+      .filter(stream => stream?.codec_type === 'audio')
+      .map(stream => ({
+        index: Number(stream.index),
+        codec: String(stream.codec_name ?? 'unknown'),
+        channels: Number(stream.channels) || 0,
+        language: typeof stream.tags?.language === 'string' ? stream.tags.language.toLowerCase() : undefined,
+        isDefault: stream.disposition?.default === 1,
+        isSecondary: stream.disposition?.comment === 1
+          || stream.disposition?.visual_impaired === 1
+          || stream.disposition?.hearing_impaired === 1,
+      })),
+  }
+}
+
+/**
+ * Prefers a main track in the chat's language, then the track marked
+ * default, then whatever ffmpeg would pick among main tracks.
+ */
+export function pickAudioStream(streams: AudioStream[], language?: string) {
+  const main = streams.filter(stream => !stream.isSecondary)
+  const candidates = main.length ? main : streams
+
+  if (language) {
+    const tags = [language, ...(ISO_639_2[language] ?? [])]
+    const match = candidates.find(stream => stream.language && tags.includes(stream.language))
+    if (match)
+      return match
+  }
+
+  return candidates.find(stream => stream.isDefault) ?? ffmpegDefaultStream(candidates)
+}
+
+// ffmpeg's automatic selection: most channels, then lowest index.
+function ffmpegDefaultStream(streams: AudioStream[]) {
+  return streams.reduce<AudioStream | undefined>(
+    (best, stream) => !best || stream.channels > best.channels ? stream : best,
+    undefined,
+  )
+}
+
+async function convert(
+  input: string,
+  outDir: string,
+  options: PreprocessOptions,
+  streamIndex: number | null,
+  probe: MediaProbe | null,
+  signal?: AbortSignal,
+  stdin?: AsyncIterable<Uint8Array>,
+): Promise<ConvertedAudio> {
+  const fullWav = path.join(outDir, streamIndex === null ? 'stream.wav' : `track${streamIndex}.wav`)
   await fs.mkdir(outDir, { recursive: true })
 
-  await new Promise<void>((resolve, reject) => {
-    const p = spawn('ffmpeg', [
+  const filters: string[] = []
+  if (options.loudnorm)
+    filters.push('loudnorm=I=-16:TP=-1.5:LRA=11')
+  if (options.trimSilence)
+    filters.push(`silencedetect=noise=${SILENCE_THRESHOLD_DB}dB:d=${SILENCE_MIN_SEC}`)
+
+  const { stderr } = await runTool('ffmpeg', [
+    '-hide_banner',
+    '-nostats',
+    '-y',
+    '-i',
+    input,
+    ...(streamIndex === null ? ['-vn'] : ['-map', `0:${streamIndex}`]),
+    ...(filters.length ? ['-af', filters.join(',')] : []),
+    '-ac',
+    '1',
+    '-ar',
+    String(SAMPLE_RATE),
+    '-f',
+    'wav',
+    fullWav,
+  ], { signal, stdin })
+
+  const totalSec = await wavDurationSec(fullWav)
+  const range = options.trimSilence ? speechRange(stderr, totalSec) : { startSec: 0, endSec: totalSec }
+  const segments = range
+    ? await splitRange(fullWav, outDir, range, totalSec, options, signal)
+    : []
+
+  return { segments, durationSec: probe?.durationSec ?? totalSec, probe }
+}
+
+// silencedetect logs `silence_start: X` and `silence_end: Y | …` on the
+// input timeline. Only silence touching either end is cut, so timestamps of
+// everything kept stay valid through AudioSegment.startSec.
+function speechRange(stderr: string, totalSec: number) {
+  const events = [...stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g)]
+    .map(match => ({ kind: match[1], at: Number(match[2]) }))
+
+  let startSec = 0
+  let endSec = totalSec
+
+  const first = events[0]
+  if (first?.kind === 'start' && first.at <= SILENCE_PAD_SEC) {
+    const end = events.find(event => event.kind === 'end')
+    startSec = end ? Math.max(0, end.at - SILENCE_PAD_SEC) : totalSec
+  }
+
+  // Newer ffmpeg also logs a silence_end at end of stream.
+  const lastStart = events.map(event => event.kind).lastIndexOf('start')
+  const closing = events[lastStart + 1]
+  if (lastStart >= 0 && events[lastStart].at > SILENCE_PAD_SEC && (!closing || closing.at >= totalSec - SILENCE_PAD_SEC))
+    endSec = Math.min(totalSec, events[lastStart].at + SILENCE_PAD_SEC)
+
+  return endSec - startSec > SILENCE_MIN_SEC ? { startSec, endSec } : null
+}
+
+async function splitRange(
+  fullWav: string,
+  outDir: string,
+  range: { startSec: number, endSec: number },
+  totalSec: number,
+  { codec, chunkSec, chunkOverlapSec }: PreprocessOptions,
+  signal?: AbortSignal,
+): Promise<AudioSegment[]> {
+  const spanSec = range.endSec - range.startSec
+  if (codec === 'wav' && range.startSec === 0 && range.endSec === totalSec && spanSec <= chunkSec + chunkOverlapSec)
+    return [{ path: fullWav, index: 0, startSec: 0, durationSec: totalSec }]
+
+  // Each segment runs chunkOverlapSec past the start of the next one so
+  // words cut at a boundary are heard whole at least once; the duplicated text
+  // is removed again by stitchTranscripts.
+  const segments: AudioSegment[] = []
+  for (let startSec = range.startSec; startSec < range.endSec; startSec += chunkSec) {
+    const index = segments.length
+    const durationSec = Math.min(chunkSec + chunkOverlapSec, range.endSec - startSec)
+    const segmentPath = path.join(outDir, `${path.basename(fullWav, '.wav')}.part${index}.${CODEC_EXTENSIONS[codec]}`)
+
+    await runTool('ffmpeg', [
+      '-hide_banner',
+      '-nostats',
       '-y',
+      '-ss',
+      String(startSec),
+      '-t',
+      String(durationSec),
       '-i',
-      inputOgg,
-      '-ac',
-      '1',
-      '-ar',
-      '16000',
-      '-f',
-      'wav',
-      outWav,
-    ])
+      fullWav,
+      ...CODEC_ARGS[codec],
+      segmentPath,
+    ], { signal })
 
+    segments.push({ path: segmentPath, index, startSec, durationSec })
+    if (startSec + durationSec >= range.endSec)
+      break
+  }
+
+  await fs.rm(fullWav, { force: true })
+  return segments
+}
+
+async function wavDurationSec(wavPath: string) {
+  const { size } = await fs.stat(wavPath)
+  return Math.max(0, size - WAV_HEADER_BYTES) / WAV_BYTES_PER_SEC
+}
+
+/** Runs `ffmpeg -version`; rejects when the binary is missing or broken. */
+export async function probeFfmpeg(signal?: AbortSignal) {
+  await runTool('ffmpeg', ['-version'], { signal })
+}
+
+function runTool(
+  bin: 'ffmpeg' | 'ffprobe',
+  args: string[],
+  { signal, stdin }: { signal?: AbortSignal, stdin?: AsyncIterable<Uint8Array> },
+) {
+  return new Promise<{ stdout: string, stderr: string }>((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const startedAt = Date.now()
+    const p = spawn(bin, args, { stdio: [stdin ? 'pipe' : 'ignore', 'pipe', 'pipe'] })
+    const onAbort = () => p.kill('SIGKILL')
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    // When ffmpeg dies first, the pipe breaks; its own exit code explains why.
+    let inputError: unknown = null
+    const feeding = stdin && p.stdin
+      ? pipeline(Readable.from(stdin), p.stdin).catch((error) => {
+          if (error?.code !== 'EPIPE' && error?.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+            inputError = error
+            p.kill('SIGKILL')
+          }
+        })
+      : Promise.resolve()
+
+    let stdout = ''
     let stderr = ''
-    p.stderr.on('data', d => (stderr += d.toString()))
-    p.on('close', (code) => {
-      if (code === 0)
-        resolve()
-      else reject(new Error(`ffmpeg failed (${code}): ${stderr}`))
+    p.stdout?.on('data', d => (stdout += d.toString()))
+    p.stderr?.on('data', d => (stderr += d.toString()))
+    p.on('error', reject)
+    p.on('close', async (code) => {
+      signal?.removeEventListener('abort', onAbort)
+      await feeding
+      log.debug(`${bin} exited`, { code, ms: Date.now() - startedAt, args: args.join(' ') })
+      if (signal?.aborted)
+        reject(signal.reason)
+      else if (inputError)
+        reject(inputError)
+      else if (code === 0)
+        resolve({ stdout, stderr })
+      else reject(new JobError('decode', `${bin} failed (${code}): ${stderr}`))
     })
   })
-
-  return outWav
 }
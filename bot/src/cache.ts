@@ -0,0 +1,94 @@
+import type { Database } from 'bun:sqlite'
+import type { Transcript } from './transcript'
+import { getDb as getSharedDb } from './db'
+
+const CACHE_TTL_MS = 30 * 86_400_000
+const CACHE_MAX_ENTRIES = 2000
+
+export interface CacheVariant {
+  /** `provider:model` that produced the transcript. */
+  modelKey: string
+  language?: string
+  diarize: boolean
+}
+
+export interface CachedTranscript {
+  transcript: Transcript
+  modelKey: string
+}
+
+function getDb() {
+  return getSharedDb('transcript_cache', createCacheTable)
+}
+
+function createCacheTable(db: Database) {
+  db.run(`CREATE TABLE IF NOT EXISTS transcript_cache (
+    key TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    model_key TEXT NOT NULL,
+    transcript TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    accessed_at INTEGER NOT NULL,
+    PRIMARY KEY (key, variant)
+  )`)
+  db.run('CREATE INDEX IF NOT EXISTS transcript_cache_accessed ON transcript_cache (accessed_at)')
+}
+
+// Anything that changes what the provider returns is part of the variant;
+// output preferences are not, since they are applied when delivering.
+function variantKey(variant: CacheVariant) {
+  return `${variant.modelKey}|${variant.language ?? 'auto'}|${variant.diarize ? 'diarize' : 'plain'}`
+}
+
+export function fileCacheKey(fileUniqueId: string) {
+  return `file:${fileUniqueId}`
+}
+
+export function contentCacheKey(sha256: string) {
+  return `sha256:${sha256}`
+}
+
+export function getCachedTranscript(key: string, variant: CacheVariant): CachedTranscript | null {
+  const now = Date.now()
+  const row = getDb()
+    .query<{ model_key: string, transcript: string }, [string, string, number]>(
+      'SELECT model_key, transcript FROM transcript_cache WHERE key = ? AND variant = ? AND created_at >= ?',
+    )
+    .get(key, variantKey(variant), now - CACHE_TTL_MS)
+  if (!row)
+    return null
+
+  getDb().run(
+    'UPDATE transcript_cache SET accessed_at = ? WHERE key = ? AND variant = ?',
+    [now, key, variantKey(variant)],
+  )
+
+  try {
+    return { transcript: JSON.parse(row.transcript) as Transcript, modelKey: row.model_key }
+  }
+  catch {
+    return null
+  }
+}
+
+/** Stores the transcript under every given key, then applies the TTL and size cap. */
+export function cacheTranscript(keys: string[], variant: CacheVariant, transcript: Transcript) {
+  const db = getDb()
+  const now = Date.now()
+  const payload = JSON.stringify(transcript)
+
+  for (const key of keys) {
+    db.run(
+      'INSERT OR REPLACE INTO transcript_cache (key, variant, model_key, transcript, created_at, accessed_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [key, variantKey(variant), variant.modelKey, payload, now, now],
+    )
+  }
+
+  db.run('DELETE FROM transcript_cache WHERE created_at < ?', [now - CACHE_TTL_MS])
+  db.run(
+    `DELETE FROM transcript_cache WHERE rowid IN (
+      SELECT rowid FROM transcript_cache ORDER BY accessed_at DESC LIMIT -1 OFFSET ?
+    )`,
+    [CACHE_MAX_ENTRIES],
+  )
+}
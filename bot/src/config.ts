@@ -0,0 +1,334 @@
+import { existsSync, readFileSync } from 'node:fs'
+import process from 'node:process'
+
+export const STT_PROVIDER_NAMES = ['elevenlabs', 'openai'] as const
+
+export type SttProviderName = (typeof STT_PROVIDER_NAMES)[number]
+
+export const AUDIO_CODECS = ['wav', 'flac', 'opus'] as const
+
+/** Format of the segments sent to the STT provider. */
+export type AudioCodec = (typeof AUDIO_CODECS)[number]
+
+// `silent` turns logging off, e.g. for the test suite.
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const
+
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+const PUBLIC_API_ROOT = 'https://api.telegram.org'
+const ELEVENLABS_DEFAULT_BASE_URL = 'https://api.elevenlabs.io/v1'
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+// The public Bot API refuses getFile above 20MB; a local server allows 2GB.
+const PUBLIC_MAX_FILE_MB = 20
+
+export interface WebhookConfig {
+  url: string
+  /** Served on `port`; a reverse proxy forwards the public URL to it. */
+  path: string
+  secret: string
+}
+
+export interface LlmConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+  /** ISO 639-1 code for "Translate to X". */
+  translateTo: string
+}
+
+export interface Config {
+  /** Holds the SQLite database and the legacy stats.json. */
+  dataDir: string
+  /** Health, readiness, metrics and (in webhook mode) updates. */
+  port: number
+  log: {
+    level: LogLevel
+    /** Blank Telegram user and chat IDs and names in log lines. */
+    redactUsers: boolean
+  }
+  telegram: {
+    token: string
+    /** Passed to grammY as `client.apiRoot`. */
+    apiRoot: string
+    /** Downloads are `${fileRoot}/bot<token>/<file_path>`. */
+    fileRoot: string
+    /** The server runs `telegram-bot-api --local` and returns absolute paths on a shared volume. */
+    local: boolean
+    maxFileMb: number
+    /** Null means long polling. */
+    webhook: WebhookConfig | null
+    downloadTimeoutMaxSec: number
+  }
+  stt: {
+    provider: SttProviderName
+    elevenLabsBaseUrl: string
+    elevenLabsApiKey: string
+    elevenLabsModel: string
+    openAiBaseUrl: string
+    openAiApiKey: string
+    openAiModel: string
+    timeoutMaxSec: number
+  }
+  /** Null when post-processing is off. */
+  llm: LlmConfig | null
+  access: {
+    adminUserIds: number[]
+    allowedUserIds: number[]
+    allowedChatIds: number[]
+    /** 0 means unlimited, as for the other limits. */
+    monthlyAudioMinutes: number
+    jobsPerHour: number
+    /** Summary, action item and translation requests that reach the LLM. */
+    llmCallsPerHour: number
+    audioMinutesPerDay: number
+  }
+  queue: {
+    concurrency: number
+    maxQueue: number
+    /** Restarts a job survives before it is marked failed. */
+    maxAttempts: number
+    /** How long shutdown waits for running jobs before aborting them. */
+    shutdownTimeoutSec: number
+  }
+  audio: {
+    trimSilence: boolean
+    loudnorm: boolean
+    codec: AudioCodec
+    chunkSec: number
+    chunkOverlapSec: number
+  }
+}
+
+export interface ConfigEntry {
+  name: string
+  /** Effective value as text; empty when unset. */
+  value: string
+  source: 'env' | 'file' | 'default'
+  secret: boolean
+}
+
+let cachedConfig: Config | null = null
+let cachedEntries: ConfigEntry[] = []
+
+/**
+ * Reads every setting from the environment, falling back to the JSON file
+ * named by CONFIG_FILE (same keys as the variables). Throws one error listing
+ * every invalid value, so a bad deployment fails at startup.
+ */
+export function getConfig() {
+  if (cachedConfig)
+    return cachedConfig
+
+  const { config, entries } = loadConfig(process.env, readConfigFile((process.env.CONFIG_FILE ?? '').trim()))
+  cachedConfig = config
+  cachedEntries = entries
+  return cachedConfig
+}
+
+/** Effective settings for /config, secrets replaced by a hint that they are set. */
+export function describeConfig() {
+  getConfig()
+  return cachedEntries.map((entry) => {
+    const value = entry.secret && entry.value ? redact(entry.value) : (entry.value || '(unset)')
+    return `${entry.name} = ${value}${entry.source === 'default' ? '' : ` (${entry.source})`}`
+  })
+}
+
+function readConfigFile(filePath: string): Record<string, unknown> {
+  if (!filePath)
+    return {}
+  if (!existsSync(filePath))
+    throw new Error(`CONFIG_FILE ${filePath} does not exist`)
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'))
+  }
+  catch (error) {
+    throw new Error(`CONFIG_FILE ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed))
+    throw new Error(`CONFIG_FILE ${filePath} must hold a JSON object of setting names to values`)
+  return parsed as Record<string, unknown>
+}
+
+/** Builds the configuration from explicit sources without caching it; `getConfig` wraps this. */
+export function loadConfig(env: Record<string, string | undefined>, file: Record<string, unknown>) {
+  const errors: string[] = []
+  const entries: ConfigEntry[] = []
+
+  const raw = (name: string, secret = false) => {
+    const fromEnv = (env[name] ?? '').trim()
+    const fromFile = file[name] === undefined || file[name] === null ? '' : String(file[name]).trim()
+    const value = fromEnv || fromFile
+    entries.push({ name, value, source: fromEnv ? 'env' : fromFile ? 'file' : 'default', secret })
+    return value
+  }
+
+  // Defaults are recorded too, so /config shows what is actually in effect.
+  const withDefault = (name: string, fallback: string, secret = false) => {
+    const value = raw(name, secret)
+    if (!value)
+      entries[entries.length - 1].value = fallback
+    return value || fallback
+  }
+
+  const number = (name: string, fallback: number, { min = 0, max = Infinity, integer = false } = {}) => {
+    const value = withDefault(name, String(fallback))
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`
+      errors.push(`${name} must be ${integer ? 'an integer' : 'a number'} ${range}, got "${value}"`)
+      return fallback
+    }
+    return parsed
+  }
+
+  const bool = (name: string) => {
+    const value = withDefault(name, 'false')
+    if (value && !/^(?:1|0|true|false|yes|no)$/i.test(value))
+      errors.push(`${name} must be true or false, got "${value}"`)
+    return /^(?:1|true|yes)$/i.test(value)
+  }
+
+  const oneOf = <T extends string>(name: string, options: readonly T[], fallback: T) => {
+    const value = withDefault(name, fallback).toLowerCase()
+    if (!options.includes(value as T)) {
+      errors.push(`${name} must be one of ${options.join(', ')}, got "${value}"`)
+      return fallback
+    }
+    return value as T
+  }
+
+  const url = (name: string, fallback: string) => {
+    const value = withDefault(name, fallback).replace(/\/+$/, '')
+    if (!URL.canParse(value))
+      errors.push(`${name} must be a URL, got "${value}"`)
+    return value
+  }
+
+  const ids = (name: string) => {
+    const items = raw(name).split(',').map(id => id.trim()).filter(Boolean)
+    const bad = items.filter(id => !/^-?\d+$/.test(id))
+    if (bad.length)
+      errors.push(`${name} must be comma-separated Telegram IDs, got "${bad.join(', ')}"`)
+    return items.filter(id => !bad.includes(id)).map(Number)
+  }
+
+  const token = raw('TELEGRAM_BOT_TOKEN', true)
+  if (!token)
+    errors.push('TELEGRAM_BOT_TOKEN is required')
+
+  const apiRoot = url('TELEGRAM_API_ROOT', PUBLIC_API_ROOT)
+  const fileRoot = url('TELEGRAM_FILE_ROOT', `${apiRoot}/file`)
+  const local = bool('TELEGRAM_API_LOCAL')
+  if (local && apiRoot === PUBLIC_API_ROOT)
+    errors.push('TELEGRAM_API_LOCAL needs TELEGRAM_API_ROOT pointing at your telegram-bot-api server')
+  const publicMaxFileMb = number('TELEGRAM_MAX_FILE_MB', PUBLIC_MAX_FILE_MB, { min: 1, max: PUBLIC_MAX_FILE_MB })
+  const localMaxFileMb = number('TELEGRAM_LOCAL_MAX_FILE_MB', 2000, { min: 1 })
+
+  const webhookUrl = raw('TELEGRAM_WEBHOOK_URL')
+  const webhookSecret = raw('TELEGRAM_WEBHOOK_SECRET', true)
+  let webhook: WebhookConfig | null = null
+  if (webhookUrl) {
+    const parsed = URL.canParse(webhookUrl) ? new URL(webhookUrl) : null
+    if (parsed?.protocol !== 'https:')
+      errors.push('TELEGRAM_WEBHOOK_URL must be an https:// URL')
+    if (!/^[\w-]{1,256}$/.test(webhookSecret))
+      errors.push('TELEGRAM_WEBHOOK_SECRET must be 1-256 characters of A-Z, a-z, 0-9, _ and -')
+    if (parsed)
+      webhook = { url: parsed.href, path: parsed.pathname, secret: webhookSecret }
+  }
+
+  const provider = oneOf('STT_PROVIDER', STT_PROVIDER_NAMES, 'elevenlabs')
+  const elevenLabsBaseUrl = url('ELEVENLABS_BASE_URL', ELEVENLABS_DEFAULT_BASE_URL)
+  const elevenLabsApiKey = raw('ELEVENLABS_API_KEY', true)
+  const elevenLabsModel = withDefault('ELEVENLABS_MODEL', 'scribe_v2')
+  const openAiBaseUrl = url('OPENAI_STT_BASE_URL', OPENAI_DEFAULT_BASE_URL)
+  const openAiApiKey = raw('OPENAI_STT_API_KEY', true)
+  const openAiModel = withDefault('OPENAI_STT_MODEL', 'whisper-1')
+  if (provider === 'elevenlabs' && !elevenLabsApiKey)
+    errors.push('ELEVENLABS_API_KEY is required with STT_PROVIDER=elevenlabs')
+  if (provider === 'openai' && !openAiApiKey && openAiBaseUrl === OPENAI_DEFAULT_BASE_URL)
+    errors.push('OPENAI_STT_API_KEY is required with the default OPENAI_STT_BASE_URL')
+
+  const isSet = (name: string) => entries.some(entry => entry.name === name && entry.source !== 'default')
+
+  // Post-processing is on when LLM_BASE_URL or LLM_API_KEY is set.
+  const llmBaseUrl = url('LLM_BASE_URL', OPENAI_DEFAULT_BASE_URL)
+  const llmBaseUrlSet = isSet('LLM_BASE_URL')
+  const llmApiKey = raw('LLM_API_KEY', true)
+  const llmModel = withDefault('LLM_MODEL', 'gpt-4o-mini')
+  const llmTranslateTo = withDefault('LLM_TRANSLATE_LANGUAGE', 'en').toLowerCase()
+  if (!llmApiKey && llmBaseUrlSet && llmBaseUrl === OPENAI_DEFAULT_BASE_URL)
+    errors.push('LLM_API_KEY is required with the default LLM_BASE_URL')
+  if (!/^[a-z]{2,3}$/.test(llmTranslateTo))
+    errors.push(`LLM_TRANSLATE_LANGUAGE must be an ISO 639 code such as en, got "${llmTranslateTo}"`)
+
+  const config: Config = {
+    dataDir: withDefault('DATA_DIR', '/data').replace(/\/+$/, '') || '/',
+    port: number('PORT', 3000, { min: 1, max: 65_535, integer: true }),
+    log: {
+      level: oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+      redactUsers: bool('LOG_REDACT_USERS'),
+    },
+    telegram: {
+      token,
+      apiRoot,
+      fileRoot,
+      local,
+      maxFileMb: local ? localMaxFileMb : publicMaxFileMb,
+      webhook,
+      downloadTimeoutMaxSec: number('DOWNLOAD_TIMEOUT_MAX_SEC', 600, { min: 10 }),
+    },
+    stt: {
+      provider,
+      elevenLabsBaseUrl,
+      elevenLabsApiKey,
+      elevenLabsModel,
+      openAiBaseUrl,
+      openAiApiKey,
+      openAiModel,
+      timeoutMaxSec: number('STT_TIMEOUT_MAX_SEC', 1800, { min: 10 }),
+    },
+    llm: llmBaseUrlSet || llmApiKey
+      ? { baseUrl: llmBaseUrl, apiKey: llmApiKey, model: llmModel, translateTo: llmTranslateTo }
+      : null,
+    access: {
+      adminUserIds: ids('ADMIN_USER_IDS'),
+      allowedUserIds: ids('ALLOWED_USER_IDS'),
+      allowedChatIds: ids('ALLOWED_CHAT_IDS'),
+      monthlyAudioMinutes: number('MONTHLY_AUDIO_MINUTES', 0),
+      jobsPerHour: number('USER_JOBS_PER_HOUR', 10, { integer: true }),
+      llmCallsPerHour: number('USER_LLM_CALLS_PER_HOUR', 20, { integer: true }),
+      audioMinutesPerDay: number('USER_AUDIO_MINUTES_PER_DAY', 60),
+    },
+    queue: {
+      concurrency: number('QUEUE_CONCURRENCY', 1, { min: 1, max: 16, integer: true }),
+      maxQueue: number('QUEUE_MAX', 20, { integer: true }),
+      maxAttempts: number('QUEUE_MAX_ATTEMPTS', 3, { min: 1, integer: true }),
+      shutdownTimeoutSec: number('SHUTDOWN_TIMEOUT_SEC', 20, { max: 600 }),
+    },
+    audio: {
+      trimSilence: bool('AUDIO_TRIM_SILENCE'),
+      loudnorm: bool('AUDIO_LOUDNORM'),
+      codec: oneOf('AUDIO_CODEC', AUDIO_CODECS, 'wav'),
+      chunkSec: number('AUDIO_CHUNK_SECONDS', 600, { min: 60, max: 3600 }),
+      chunkOverlapSec: number('AUDIO_CHUNK_OVERLAP_SECONDS', 5, { max: 30 }),
+    },
+  }
+
+  const known = new Set(entries.map(entry => entry.name))
+  const unknown = Object.keys(file).filter(name => !known.has(name))
+  if (unknown.length)
+    errors.push(`CONFIG_FILE has unknown settings: ${unknown.join(', ')}`)
+
+  if (errors.length)
+    throw new Error(`Invalid configuration:\n- ${errors.join('\n- ')}`)
+
+  return { config, entries }
+}
+
+function redact(value: string) {
+  return `(redacted, ${value.length} chars)`
+}
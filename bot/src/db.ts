@@ -0,0 +1,43 @@
+import { mkdirSync } from 'node:fs'
+import path from 'node:path'
+import { Database } from 'bun:sqlite'
+import { getConfig } from './config'
+
+const DB_FILE = 'queue.db'
+
+let db: Database | null = null
+const initialized = new Set<string>()
+
+/**
+ * Shared SQLite handle. `init` runs once per `name` so each module can create
+ * its own tables on first use.
+ */
+export function getDb(name: string, init: (db: Database) => void) {
+  if (!db) {
+    const { dataDir } = getConfig()
+    mkdirSync(dataDir, { recursive: true })
+    db = new Database(path.join(dataDir, DB_FILE), { create: true })
+    db.run('PRAGMA journal_mode = WAL')
+  }
+
+  if (!initialized.has(name)) {
+    init(db)
+    initialized.add(name)
+  }
+
+  return db
+}
+
+/**
+ * Folds the WAL into the database file and closes it, so stats, usage and
+ * the queue are complete on disk when the process exits.
+ */
+export function closeDb() {
+  if (!db)
+    return
+
+  db.run('PRAGMA wal_checkpoint(TRUNCATE)')
+  db.close()
+  db = null
+  initialized.clear()
+}
@@ -0,0 +1,144 @@
+export const ERROR_KINDS = [
+  'download',
+  'too_large',
+  'decode',
+  'no_audio',
+  'over_limit',
+  'provider_auth',
+  'provider_billing',
+  'provider_quota',
+  'provider_unavailable',
+  'provider_rejected',
+  'timeout',
+  'internal',
+] as const
+
+/**
+ * Why a job failed. Decides whether a request is retried, what the user is
+ * told and how /stats and /metrics count the failure.
+ */
+export type ErrorKind = (typeof ERROR_KINDS)[number]
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one. */
+  retries: number
+  /** Doubled after every attempt, with up to 25% jitter. */
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+const NO_RETRY: RetryPolicy = { retries: 0, baseDelayMs: 0, maxDelayMs: 0 }
+
+// Retry-After beyond this means the limit will not lift while the user waits.
+const MAX_RETRY_AFTER_MS = 60_000
+
+const RETRY_POLICIES: Record<ErrorKind, RetryPolicy> = {
+  download: NO_RETRY,
+  too_large: NO_RETRY,
+  decode: NO_RETRY,
+  no_audio: NO_RETRY,
+  over_limit: NO_RETRY,
+  provider_auth: NO_RETRY,
+  // Out of credit: nothing changes until someone tops up the account.
+  provider_billing: NO_RETRY,
+  provider_quota: { retries: 3, baseDelayMs: 2_000, maxDelayMs: 30_000 },
+  provider_unavailable: { retries: 2, baseDelayMs: 1_000, maxDelayMs: 10_000 },
+  provider_rejected: NO_RETRY,
+  // The request timeout already scales with the audio length; one more try is enough.
+  timeout: { retries: 1, baseDelayMs: 1_000, maxDelayMs: 1_000 },
+  internal: NO_RETRY,
+}
+
+const USER_MESSAGES: Record<ErrorKind, string> = {
+  download: 'I could not download the file from Telegram. Please send it again.',
+  too_large: 'The file is too big.',
+  decode: 'I could not read this file. It may be damaged or in a format I do not support.',
+  no_audio: 'This file has no audio track.',
+  over_limit: 'You have used up your transcription allowance. Please try again later.',
+  provider_auth: 'The transcription service rejected my credentials. Please let the bot admin know.',
+  provider_billing: 'The transcription service account is out of credit. Please let the bot admin know.',
+  provider_quota: 'The transcription service is over its usage limit right now. Please try again later.',
+  provider_unavailable: 'The transcription service is having problems. Please try again in a few minutes.',
+  provider_rejected: 'The transcription service could not process this audio.',
+  timeout: 'Transcription took too long and was stopped. Please try again, or send a shorter recording.',
+  internal: 'Something went wrong on my side. Please try again later.',
+}
+
+export class JobError extends Error {
+  readonly kind: ErrorKind
+  /** HTTP status from the provider, when there was a response. */
+  readonly status?: number
+  readonly retryAfterMs?: number
+  readonly userMessage: string
+
+  constructor(
+    kind: ErrorKind,
+    message: string,
+    options: { cause?: unknown, status?: number, retryAfterMs?: number, userMessage?: string } = {},
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'JobError'
+    this.kind = kind
+    this.status = options.status
+    this.retryAfterMs = options.retryAfterMs
+    this.userMessage = options.userMessage ?? USER_MESSAGES[kind]
+  }
+}
+
+/** Wraps anything thrown during a job; errors that are already classified pass through. */
+export function toJobError(error: unknown): JobError {
+  if (error instanceof JobError)
+    return error
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'))
+    return new JobError('timeout', error.message, { cause: error })
+  return new JobError('internal', error instanceof Error ? error.message : String(error), { cause: error })
+}
+
+export function isJobError(error: unknown, kind: ErrorKind): error is JobError {
+  return error instanceof JobError && error.kind === kind
+}
+
+/** Maps a failed provider response to its kind; only a 429 rate limit is worth waiting out. */
+export function providerErrorKind(status: number): ErrorKind {
+  if (status === 401 || status === 403)
+    return 'provider_auth'
+  if (status === 402)
+    return 'provider_billing'
+  if (status === 429)
+    return 'provider_quota'
+  if (status === 408)
+    return 'timeout'
+  if (status >= 500)
+    return 'provider_unavailable'
+  return 'provider_rejected'
+}
+
+/**
+ * How long to wait before retry number `attempt` (1-based), or null to give
+ * up. A Retry-After the error carries wins over the backoff, unless it is
+ * too far away to be worth waiting for.
+ */
+export function retryDelayMs(error: JobError, attempt: number) {
+  const policy = RETRY_POLICIES[error.kind]
+  if (attempt > policy.retries)
+    return null
+
+  if (error.retryAfterMs !== undefined)
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : null
+
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs)
+  return Math.round(backoff * (1 + Math.random() * 0.25))
+}
+
+/** Retry-After is either delay-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null) {
+  if (!value)
+    return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds))
+    return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
@@ -0,0 +1,57 @@
+import type { Transcript, TranscriptSegment } from './transcript'
+import { toSubtitleCues } from './transcript'
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'json'
+
+export interface RenderedTranscript {
+  fileName: string
+  content: string
+}
+
+export function renderTranscript(transcript: Transcript, format: ExportFormat): RenderedTranscript {
+  switch (format) {
+    case 'txt':
+      return { fileName: 'transcript.txt', content: `${transcript.text}\n` }
+    case 'srt':
+      return { fileName: 'transcript.srt', content: renderSrt(toSubtitleCues(transcript)) }
+    case 'vtt':
+      return { fileName: 'transcript.vtt', content: renderVtt(toSubtitleCues(transcript)) }
+    case 'json':
+      return { fileName: 'transcript.json', content: `${JSON.stringify(transcript, null, 2)}\n` }
+  }
+}
+
+function renderSrt(cues: TranscriptSegment[]) {
+  return cues
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text,
+      '',
+    ].join('\n'))
+    .join('\n')
+}
+
+function renderVtt(cues: TranscriptSegment[]) {
+  const body = cues
+    .map(cue => [
+      `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+      cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text,
+      '',
+    ].join('\n'))
+    .join('\n')
+  return `WEBVTT\n\n${body}`
+}
+
+function formatTimestamp(seconds: number, msSeparator: ',' | '.') {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3_600_000)
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000)
+  const secs = Math.floor((totalMs % 60_000) / 1000)
+  const ms = totalMs % 1000
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${msSeparator}${pad(ms, 3)}`
+}
+
+function pad(value: number, length: number) {
+  return String(value).padStart(length, '0')
+}
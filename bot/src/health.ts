@@ -0,0 +1,113 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { probeFfmpeg } from './audio'
+import { getConfig } from './config'
+import { getQueueSummary } from './queue'
+import { getSttProvider } from './stt'
+
+const CHECK_TIMEOUT_MS = 5_000
+// Readiness is polled every few seconds; provider and ffmpeg checks are cached
+// so the healthcheck does not turn into API traffic.
+const OK_TTL_MS = 5 * 60_000
+const FAILED_TTL_MS = 30_000
+const QUEUE_SATURATION_THRESHOLD = 0.9
+
+export interface CheckResult {
+  ok: boolean
+  detail?: string
+}
+
+export type Check = () => Promise<CheckResult>
+
+export interface ReadinessReport {
+  ok: boolean
+  checks: Record<string, CheckResult & { ms: number }>
+}
+
+/** Runs every check in parallel; a check that throws or times out fails with its message. */
+export async function runChecks(checks: Record<string, Check>): Promise<ReadinessReport> {
+  const entries = await Promise.all(Object.entries(checks).map(async ([name, check]) => {
+    const startedAt = Date.now()
+    let result: CheckResult
+    try {
+      result = await withTimeout(check(), CHECK_TIMEOUT_MS)
+    }
+    catch (error) {
+      result = { ok: false, detail: error instanceof Error ? error.message : String(error) }
+    }
+    return [name, { ...result, ms: Date.now() - startedAt }] as const
+  }))
+
+  return {
+    ok: entries.every(([, result]) => result.ok),
+    checks: Object.fromEntries(entries),
+  }
+}
+
+/** Reuses the last result for `okTtlMs` (or `failedTtlMs` after a failure) and shares in-flight runs. */
+export function cachedCheck(check: Check, okTtlMs = OK_TTL_MS, failedTtlMs = FAILED_TTL_MS): Check {
+  let last: { result: CheckResult, at: number } | null = null
+  let pending: Promise<CheckResult> | null = null
+
+  return async () => {
+    if (last && Date.now() - last.at < (last.result.ok ? okTtlMs : failedTtlMs))
+      return last.result
+
+    pending ??= check()
+      .catch(error => ({ ok: false, detail: error instanceof Error ? error.message : String(error) }))
+      .then((result) => {
+        last = { result, at: Date.now() }
+        return result
+      })
+      .finally(() => {
+        pending = null
+      })
+    return pending
+  }
+}
+
+export const checkFfmpeg = cachedCheck(async () => {
+  await probeFfmpeg(AbortSignal.timeout(CHECK_TIMEOUT_MS))
+  return { ok: true }
+})
+
+const providerChecks = new Map<string, Check>()
+
+/** Checks whichever provider is active, so /setmodel is picked up without waiting for the cache. */
+export function checkProvider() {
+  const provider = getSttProvider()
+  let check = providerChecks.get(provider.key)
+  if (!check) {
+    check = cachedCheck(async () => {
+      await provider.checkAuth(CHECK_TIMEOUT_MS)
+      return { ok: true, detail: provider.key }
+    })
+    providerChecks.set(provider.key, check)
+  }
+  return check()
+}
+
+export async function checkStorage(): Promise<CheckResult> {
+  const probe = path.join(getConfig().dataDir, '.readyz')
+  await fs.writeFile(probe, String(Date.now()))
+  await fs.rm(probe, { force: true })
+  return { ok: true }
+}
+
+export async function checkQueue(): Promise<CheckResult> {
+  const { queued, running } = getQueueSummary()
+  const { maxQueue } = getConfig().queue
+  // QUEUE_MAX=0 means the queue is unbounded, so it can never be saturated.
+  return {
+    ok: maxQueue === 0 || queued < maxQueue * QUEUE_SATURATION_THRESHOLD,
+    detail: `${queued}/${maxQueue} queued, ${running} running`,
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
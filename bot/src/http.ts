@@ -0,0 +1,75 @@
+import { setTimeout as sleep } from 'node:timers/promises'
+import { JobError, parseRetryAfter, providerErrorKind, retryDelayMs } from './errors'
+import { log } from './logger'
+import { sttResponsesTotal, sttRetriesTotal } from './metrics'
+
+/**
+ * POSTs to an STT provider and retries as long as the error kind's policy
+ * allows (see errors.ts); `provider` labels the retry and status metrics.
+ * Failures are thrown as JobError.
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number,
+  provider: string,
+) {
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0)
+      sttRetriesTotal.inc({ provider })
+
+    let status = 'error'
+    let failure: JobError
+    try {
+      const res = await fetchWithTimeout(url, timeoutMs, options)
+      status = String(res.status)
+      if (res.ok)
+        return res
+
+      const body = await res.text().catch(() => '')
+      failure = new JobError(providerErrorKind(res.status), `STT failed: ${res.status} ${body}`, {
+        status: res.status,
+        retryAfterMs: parseRetryAfter(res.headers.get('retry-after')),
+      })
+    }
+    catch (error) {
+      if (options.signal?.aborted)
+        throw error
+      failure = error instanceof Error && error.name === 'AbortError'
+        ? new JobError('timeout', `STT timed out after ${timeoutMs}ms`, { cause: error })
+        : new JobError('provider_unavailable', `STT unreachable: ${error instanceof Error ? error.message : String(error)}`, { cause: error })
+    }
+    finally {
+      if (!options.signal?.aborted)
+        sttResponsesTotal.inc({ provider, status })
+    }
+
+    const wait = retryDelayMs(failure, attempt + 1)
+    if (wait === null)
+      throw failure
+    log.warn('stt request failed, retrying', { provider, attempt: attempt + 1, kind: failure.kind, status: failure.status, waitMs: wait })
+    await delay(wait, options.signal ?? undefined)
+  }
+}
+
+export async function fetchWithTimeout(
+  url: string,
+  timeoutMs: number,
+  options?: RequestInit,
+) {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const signal = options?.signal
+    ? AbortSignal.any([controller.signal, options.signal])
+    : controller.signal
+  try {
+    return await fetch(url, { ...options, signal })
+  }
+  finally {
+    clearTimeout(timer)
+  }
+}
+
+export function delay(ms: number, signal?: AbortSignal) {
+  return sleep(ms, undefined, { signal })
+}
@@ -1,46 +1,251 @@
+import type { Context } from 'grammy'
+import type { BotCommand } from 'grammy/types'
+import type { AudioJob, QueuedJob } from './queue'
 import process from 'node:process'
-import { Bot } from 'grammy'
-import { enqueue } from './queue'
-import { getStatsMessage } from './stats'
-import { handleAudio } from './telegram'
+import { Bot, webhookCallback } from 'grammy'
+import { checkAccess, isAdmin, recordUsage, releaseUsage } from './access'
+import { ADMIN_COMMANDS, isIntakePaused, registerAdminCommands, setAdminCommandMenus } from './admin'
+import { getConfig } from './config'
+import { closeDb } from './db'
+import { cachedCheck, checkFfmpeg, checkProvider, checkQueue, checkStorage, runChecks } from './health'
+import { log, withLogContext } from './logger'
+import { registerSettingsMenu } from './menu'
+import { renderMetrics } from './metrics'
+import { registerPostprocessActions } from './postprocess'
+import { cancelKeyboard, createProgressReporter, formatProgress } from './progress'
+import { cancelJob, drainQueue, enqueue, getJob, getQueuePosition, isQueueFull, listPendingJobs, startQueue } from './queue'
+import { getChatSettings } from './settings'
+import { getStatsMessage, parseStatsQuery } from './stats'
+import { getSttProvider } from './stt'
+import { handleAudio, isSupportedMedia, rejectAudioJob, removeTempDirs, sendToChat, toAudioJob } from './telegram'
 
-const token = process.env.TELEGRAM_BOT_TOKEN
-if (!token)
-  throw new Error('Missing TELEGRAM_BOT_TOKEN')
+// Validates every setting up front, so a bad deployment fails before connecting.
+const config = getConfig()
 
-const ELEVENLABS_API_KEY = (process.env.ELEVENLABS_API_KEY ?? '').trim()
-const ELEVENLABS_MODEL_ID = 'scribe_v2'
-const HEALTH_PORT = 3000
+// Telegram retries updates it gets no answer for, so webhook requests are
+// acknowledged after this long even if a handler is still busy (e.g. /broadcast).
+const WEBHOOK_ANSWER_TIMEOUT_MS = 5_000
+// Telegram keeps the last delivery error around; only recent ones mean the webhook is down.
+const WEBHOOK_ERROR_WINDOW_SEC = 5 * 60
+const startedAt = Date.now()
+let shuttingDown = false
 
-const bot = new Bot(token)
+const webhook = config.telegram.webhook
+
+const PUBLIC_COMMANDS: BotCommand[] = [
+  { command: 'start', description: 'Welcome message' },
+  { command: 'help', description: 'How to use this bot' },
+  { command: 'stats', description: 'Transcription stats: /stats [24h|7d] [user]' },
+  { command: 'queue', description: 'List your pending transcriptions' },
+  { command: 'cancel', description: 'Cancel a pending transcription' },
+  { command: 'settings', description: 'Language and output settings for this chat' },
+  { command: 'transcribe', description: 'Reply to a voice message to transcribe it' },
+]
+
+const bot = new Bot(config.telegram.token, { client: { apiRoot: config.telegram.apiRoot } })
+
+// Log lines written while handling an update carry its ID; jobs get their own once queued.
+bot.use((ctx, next) => withLogContext({ update: ctx.update.update_id }, next))
 
 bot.command('start', async (ctx) => {
   await ctx.reply('Hey! 👋 Send me a voice message and I\'ll transcribe it for you.')
 })
 
 bot.command('help', async (ctx) => {
+  const commands = isAdmin(ctx.from?.id) ? [...PUBLIC_COMMANDS, ...ADMIN_COMMANDS] : PUBLIC_COMMANDS
   await ctx.reply(
-    'Send a voice message, audio file, or video and I\'ll transcribe it.\nCommands: /start, /help, /stats',
+    `Send a voice message, audio file, or video and I'll transcribe it. In groups, reply /transcribe to one (or mention me in the reply).\nCommands: ${commands.map(c => `/${c.command}`).join(', ')}`,
   )
 })
 
+registerAdminCommands(bot)
+registerSettingsMenu(bot)
+registerPostprocessActions(bot)
+
 bot.command('stats', async (ctx) => {
-  const message = await getStatsMessage()
-  await ctx.reply(message)
+  const query = parseStatsQuery(ctx.match, ctx.from?.id)
+  if (!query) {
+    await ctx.reply('Usage: /stats [24h|7d|30d] [user]')
+    return
+  }
+
+  await ctx.reply(getStatsMessage(getSttProvider().key, query), { parse_mode: 'HTML' })
 })
 
-async function enqueueJob(ctx: Parameters<typeof handleAudio>[0]) {
-  const accepted = enqueue(() => handleAudio(ctx))
-  if (!accepted) {
-    await ctx.reply('I am busy right now. Please try again soon.')
+bot.command('queue', async (ctx) => {
+  const userId = ctx.from?.id
+  if (!userId)
+    return
+
+  const jobs = listPendingJobs(userId)
+  if (!jobs.length) {
+    await ctx.reply('You have no pending transcriptions.')
+    return
+  }
+
+  const lines = jobs.map((job) => {
+    const position = getQueuePosition(job.id)
+    const state = position === 0 ? 'running' : `queued, position ${position}`
+    return `#${job.id} ${job.mediaType}: ${state}`
+  })
+  await ctx.reply(lines.join('\n'))
+})
+
+bot.command('cancel', async (ctx) => {
+  const userId = ctx.from?.id
+  if (!userId)
+    return
+
+  const arg = ctx.match.trim().replace(/^#/, '')
+  const id = arg ? Number(arg) : listPendingJobs(userId).at(-1)?.id
+  if (!id || !Number.isInteger(id)) {
+    await ctx.reply(arg ? 'Usage: /cancel [job id]' : 'You have no pending transcriptions.')
+    return
+  }
+
+  const result = cancelJob(id, userId)
+  await markCancelled(id)
+  await ctx.reply(describeCancel(id, result))
+})
+
+bot.callbackQuery(/^cancel:(\d+)$/, async (ctx) => {
+  const id = Number(ctx.match[1])
+  const result = cancelJob(id, ctx.from.id)
+  await ctx.answerCallbackQuery({ text: describeCancel(id, result) })
+  if (result === 'finished')
+    await ctx.editMessageReplyMarkup().catch(() => {})
+  else
+    await markCancelled(id)
+})
+
+// Running jobs report their own cancellation from handleAudio; queued ones
+// never start, so their status message is updated here.
+async function markCancelled(id: number) {
+  const job = getJob(id)
+  if (job?.status !== 'cancelled' || !job.statusMessageId)
+    return
+
+  if (job.attempts === 0)
+    releaseUsage(id)
+
+  await bot.api
+    .editMessageText(job.chatId, job.statusMessageId, formatProgress(id, { stage: 'cancelled' }))
+    .catch(() => {})
+}
+
+function describeCancel(id: number, result: ReturnType<typeof cancelJob>) {
+  if (result === 'cancelled')
+    return `Cancelling job #${id}.`
+  if (result === 'finished')
+    return `Job #${id} has already finished.`
+  return `Job #${id} not found.`
+}
+
+/**
+ * Media in groups is only picked up when auto-transcribe is on or the
+ * caption mentions the bot; unsupported files are ignored there silently.
+ */
+async function onMedia(ctx: Context) {
+  const job = toAudioJob(ctx)
+  if (!job)
+    return
+  if (job.inGroup && (!isSupportedMedia(job) || !(getChatSettings(job.chatId).autoTranscribe || mentionsBot(ctx))))
+    return
+
+  await enqueueJob(ctx, job)
+}
+
+async function enqueueJob(ctx: Context, job: AudioJob) {
+  logInteraction(ctx, job.mediaType)
+
+  // In groups every answer threads under the message that asked for it.
+  const other = job.inGroup && ctx.message
+    ? { reply_parameters: { message_id: ctx.message.message_id, allow_sending_without_reply: true } }
+    : {}
+
+  const refusal = rejectAudioJob(job) ?? checkAccess(job)
+  if (refusal) {
+    log.info('job refused', { userId: job.userId, chatId: job.chatId, reason: refusal })
+    await ctx.reply(refusal, other)
+    return
+  }
+
+  if (isIntakePaused()) {
+    await ctx.reply('I am not taking new messages right now. Please try again later.', other)
+    return
+  }
+
+  const busy = 'I am busy right now. Please try again soon.'
+  if (isQueueFull()) {
+    await ctx.reply(busy, other)
+    return
+  }
+
+  // The acknowledgement is edited in place by handleAudio as the job moves on.
+  const ack = await ctx.reply('Got it!', other)
+  // Usage is recorded before the job can start: a cache hit zeroes it right away.
+  const queued = enqueue({ ...job, statusMessageId: ack.message_id }, created => recordUsage(created.id, job))
+  if (!queued) {
+    await ctx.api.editMessageText(ack.chat.id, ack.message_id, busy)
+    return
+  }
+  log.info('job queued', { job: queued.id, mediaType: job.mediaType, fileSize: job.fileSize, duration: job.duration })
+
+  // A job that started right away is already reporting its own progress.
+  const position = getQueuePosition(queued.id)
+  if (position) {
+    await ctx.api.editMessageText(
+      ack.chat.id,
+      ack.message_id,
+      formatProgress(queued.id, { stage: 'queued', position }),
+      { reply_markup: cancelKeyboard(queued.id) },
+    )
   }
 }
 
-bot.on('message:voice', enqueueJob)
-bot.on('message:audio', enqueueJob)
-bot.on('message:document', enqueueJob)
-bot.on('message:video', enqueueJob)
-bot.on('message:video_note', enqueueJob)
+function mentionsBot(ctx: Context) {
+  const mention = `@${ctx.me.username}`.toLowerCase()
+  return ctx.entities('mention').some(entity => entity.text.toLowerCase() === mention)
+}
+
+function logInteraction(ctx: Context, type: string) {
+  const from = ctx.from
+  log.info('interaction', {
+    userId: from?.id,
+    username: from?.username ?? null,
+    name: [from?.first_name, from?.last_name].filter(Boolean).join(' ') || null,
+    type,
+  })
+}
+
+async function announceRecoveredJobs(resumed: QueuedJob[], abandoned: QueuedJob[]) {
+  for (const job of resumed) {
+    await sendToChat(bot.api, job, 'I was restarted while your message was waiting. It is back in the queue.')
+      .catch(error => log.warn('resume notice failed', { job: job.id, error }))
+  }
+  for (const job of abandoned) {
+    await sendToChat(bot.api, job, 'Transcription failed after repeated restarts. Please send the message again.')
+      .catch(error => log.warn('resume notice failed', { job: job.id, error }))
+  }
+}
+
+// Works without auto-transcribe and with group privacy mode on, since the bot
+// always sees commands together with the message they reply to.
+bot.command('transcribe', async (ctx) => {
+  const job = toAudioJob(ctx, ctx.message?.reply_to_message)
+  if (!job || !isSupportedMedia(job)) {
+    await ctx.reply('Reply /transcribe to a voice message, audio file, or video.')
+    return
+  }
+
+  await enqueueJob(ctx, job)
+})
+
+bot.on('message:voice', onMedia)
+bot.on('message:audio', onMedia)
+bot.on('message:document', onMedia)
+bot.on('message:video', onMedia)
+bot.on('message:video_note', onMedia)
 
 bot.on('message', async (ctx) => {
   const message = ctx.message
@@ -59,43 +264,94 @@ bot.on('message', async (ctx) => {
     return
   }
 
-  const from = ctx.from
-  console.warn('interaction', {
-    userId: from?.id,
-    username: from?.username ?? null,
-    name: [from?.first_name, from?.last_name].filter(Boolean).join(' ') || null,
-    type: 'unsupported',
-  })
+  // Groups are busy: only a reply that mentions the bot gets an answer.
+  if (message.chat.type !== 'private') {
+    if (!mentionsBot(ctx))
+      return
+
+    const job = toAudioJob(ctx, message.reply_to_message)
+    if (job && isSupportedMedia(job))
+      await enqueueJob(ctx, job)
+    else
+      await ctx.reply('Reply to a voice message, audio file, or video and mention me to transcribe it.', { reply_parameters: { message_id: message.message_id } })
+    return
+  }
+
+  logInteraction(ctx, 'unsupported')
 
   await ctx.reply('Please send a voice message, audio file, or video.')
 })
 
-bot.catch(err => console.error('bot error', err))
+// BotError carries the Context (token, message text); log only what failed.
+bot.catch(err => log.error('bot error', { error: err.error, updateId: err.ctx.update.update_id }))
 
 async function main() {
-  if (!ELEVENLABS_API_KEY)
-    throw new Error('Missing ELEVENLABS_API_KEY')
-
-  await bot.api.setMyCommands([
-    { command: 'start', description: 'Welcome message' },
-    { command: 'help', description: 'How to use this bot' },
-    { command: 'stats', description: 'Show transcription stats' },
-  ]).catch((error) => {
-    console.warn('setMyCommands failed', error)
+  const provider = getSttProvider()
+  if (config.llm)
+    log.info('post-processing enabled', { baseUrl: config.llm.baseUrl, model: config.llm.model })
+
+  await bot.api.setMyCommands(PUBLIC_COMMANDS).catch((error) => {
+    log.warn('setMyCommands failed', { error })
   })
+  await setAdminCommandMenus(bot.api, PUBLIC_COMMANDS)
+
+  const { resumed, abandoned } = startQueue((job, signal) => handleAudio(bot.api, job, signal))
+  if (resumed.length || abandoned.length)
+    log.info('queue recovered', { resumed: resumed.length, abandoned: abandoned.length })
+  void announceRecoveredJobs(resumed, abandoned)
+
+  const handleUpdate = webhook
+    ? webhookCallback(bot, 'bun', {
+        secretToken: webhook.secret,
+        onTimeout: 'return',
+        timeoutMilliseconds: WEBHOOK_ANSWER_TIMEOUT_MS,
+      })
+    : null
+
+  const readinessChecks = {
+    ffmpeg: checkFfmpeg,
+    provider: checkProvider,
+    telegram: webhook ? cachedCheck(checkWebhook, 60_000) : checkPolling,
+    storage: checkStorage,
+    queue: checkQueue,
+  }
 
   const server = Bun.serve({
-    port: HEALTH_PORT,
-    fetch(req) {
+    port: config.port,
+    async fetch(req) {
       const url = new URL(req.url)
+      if (handleUpdate && webhook && url.pathname === webhook.path) {
+        if (req.method !== 'POST')
+          return new Response('Method Not Allowed', { status: 405 })
+        // Telegram redelivers refused updates, to whichever process is up next.
+        if (shuttingDown)
+          return new Response('Shutting down', { status: 503 })
+        return handleUpdate(req)
+      }
+
       if (req.method !== 'GET')
         return new Response('Method Not Allowed', { status: 405 })
 
-      if (url.pathname === '/health') {
+      // Liveness only says the process and its event loop answer; /health is kept for old monitors.
+      if (url.pathname === '/livez' || url.pathname === '/health') {
+        const provider = getSttProvider()
         return Response.json({
           ok: true,
-          provider: 'elevenlabs',
-          model: ELEVENLABS_MODEL_ID,
+          uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+          provider: provider.name,
+          model: provider.model,
+          mode: webhook ? 'webhook' : 'polling',
+        })
+      }
+
+      if (url.pathname === '/readyz') {
+        const report = await runChecks(readinessChecks)
+        return Response.json(report, { status: report.ok ? 200 : 503 })
+      }
+
+      if (url.pathname === '/metrics') {
+        return new Response(renderMetrics(), {
+          headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
         })
       }
 
@@ -103,17 +359,77 @@ async function main() {
     },
   })
 
-  await bot.start()
-  console.warn('bot started', { healthPort: server.port })
+  process.on('SIGINT', () => void shutdown(server))
+  process.on('SIGTERM', () => void shutdown(server))
+
+  if (webhook) {
+    await bot.init()
+    await bot.api.setWebhook(webhook.url, { secret_token: webhook.secret })
+    log.info('bot started', { mode: 'webhook', path: webhook.path, port: server.port, stt: provider.key })
+    return
+  }
 
-  process.on('SIGINT', shutdown)
-  process.on('SIGTERM', shutdown)
+  await bot.start({
+    onStart: () => log.info('bot started', { mode: 'polling', healthPort: server.port, stt: provider.key }),
+  })
 }
 
-async function shutdown() {
-  console.warn('shutting down bot')
-  await bot.stop()
+/**
+ * Stops taking updates, lets running jobs finish within SHUTDOWN_TIMEOUT_SEC
+ * and aborts the rest. Queued jobs are already persisted; their users are
+ * told to expect a delay. A second signal exits at once.
+ */
+async function shutdown(server: ReturnType<typeof Bun.serve>) {
+  if (shuttingDown) {
+    log.warn('second shutdown signal, exiting without draining')
+    process.exit(1)
+  }
+  shuttingDown = true
+  log.info('shutting down bot', { timeoutSec: config.queue.shutdownTimeoutSec })
+
+  if (webhook) {
+    await bot.api.deleteWebhook().catch((error) => {
+      log.warn('deleteWebhook failed', { error })
+    })
+  }
+  else {
+    await bot.stop().catch((error) => {
+      log.warn('stopping polling failed', { error })
+    })
+  }
+
+  const { queued, interrupted } = await drainQueue(config.queue.shutdownTimeoutSec * 1000)
+  for (const job of queued)
+    await createProgressReporter(bot.api, job).update({ stage: 'restarting' })
+
+  await removeTempDirs()
+  try {
+    closeDb()
+  }
+  catch (error) {
+    log.error('closing the database failed', { error })
+  }
+  void server.stop(true)
+  log.info('shutdown complete', { queued: queued.length, interrupted: interrupted.length })
   process.exit(0)
 }
 
+async function checkPolling() {
+  return bot.isRunning() ? { ok: true, detail: 'polling' } : { ok: false, detail: 'polling stopped' }
+}
+
+async function checkWebhook() {
+  if (!webhook)
+    return { ok: false, detail: 'webhook not configured' }
+
+  const info = await bot.api.getWebhookInfo()
+  if (info.url !== webhook.url)
+    return { ok: false, detail: `registered webhook is ${info.url || 'empty'}` }
+
+  const recentError = info.last_error_date && Date.now() / 1000 - info.last_error_date < WEBHOOK_ERROR_WINDOW_SEC
+  return recentError
+    ? { ok: false, detail: `delivery failing: ${info.last_error_message ?? 'unknown error'}` }
+    : { ok: true, detail: `webhook, ${info.pending_update_count} pending` }
+}
+
 void main()
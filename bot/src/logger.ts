@@ -0,0 +1,108 @@
+import type { LogLevel } from './config'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import process from 'node:process'
+import { getConfig, LOG_LEVELS } from './config'
+
+export type LogFields = Record<string, unknown>
+
+// Telegram identities, in our field names and the Bot API's; blanked at any
+// depth when LOG_REDACT_USERS is on.
+const USER_FIELDS = new Set(['userId', 'chatId', 'username', 'name', 'by', 'user_id', 'chat_id', 'first_name', 'last_name'])
+
+// Error properties worth logging. Anything else is left out: grammY's BotError
+// carries the whole Context, including the bot token and the message.
+const ERROR_FIELDS = ['kind', 'status', 'retryAfterMs', 'userMessage', 'code', 'method', 'error_code', 'description'] as const
+
+// Bot API payload fields holding what users wrote or what we answered.
+const CONTENT_FIELDS = new Set(['text', 'caption', 'document', 'media'])
+
+// Log fields are small; deeper nesting is cut rather than walked.
+const MAX_DEPTH = 6
+
+const context = new AsyncLocalStorage<LogFields>()
+
+/**
+ * Runs `fn` with `fields` attached to every log line written inside it,
+ * across awaits. Replaces the surrounding context rather than extending it,
+ * so a job started from another job's callback does not inherit its ID.
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T) {
+  return context.run(fields, fn)
+}
+
+export const log = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+}
+
+/** One JSON object per line: time, level, msg, then the job context and the fields. */
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  const { level: minLevel, redactUsers } = getConfig().log
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel))
+    return
+
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message }
+  for (const [key, value] of Object.entries({ ...context.getStore(), ...fields })) {
+    if (value !== undefined)
+      entry[key] = sanitize(key, value, redactUsers, 0)
+  }
+
+  const line = `${JSON.stringify(entry)}\n`
+  if (level === 'warn' || level === 'error')
+    process.stderr.write(line)
+  else
+    process.stdout.write(line)
+}
+
+// Walks plain objects and arrays so redaction reaches nested fields; errors
+// become plain objects first, since they do not survive JSON.stringify.
+function sanitize(key: string, value: unknown, redactUsers: boolean, depth: number): unknown {
+  if (redactUsers && USER_FIELDS.has(key) && value !== null && value !== undefined)
+    return '[redacted]'
+  if (depth > MAX_DEPTH)
+    return '[truncated]'
+  if (value instanceof Error) {
+    // An error's own `name` is its class, not a person's.
+    const { name, ...rest } = serializeError(value)
+    return { name, ...sanitize(key, rest, redactUsers, depth) as LogFields }
+  }
+  if (Array.isArray(value))
+    return value.map(item => sanitize('', item, redactUsers, depth + 1))
+  if (!isPlainObject(value))
+    return value
+
+  const out: LogFields = {}
+  for (const [name, item] of Object.entries(value)) {
+    if (item !== undefined)
+      out[name] = sanitize(name, item, redactUsers, depth + 1)
+  }
+  return out
+}
+
+/** Allow-listed fields only; wrapped errors (`cause`, grammY's `error`) are kept, recursively. */
+function serializeError(error: Error) {
+  const fields = error as Error & Record<string, unknown>
+  const out: LogFields = { name: error.name, message: error.message }
+  for (const name of ERROR_FIELDS) {
+    if (fields[name] !== undefined)
+      out[name] = fields[name]
+  }
+  if (isPlainObject(fields.payload)) {
+    out.payload = Object.fromEntries(Object.entries(fields.payload).filter(([name]) => !CONTENT_FIELDS.has(name)))
+  }
+  if (fields.error !== undefined)
+    out.error = fields.error
+  if (error.cause !== undefined)
+    out.cause = error.cause
+  out.stack = error.stack
+  return out
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object')
+    return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
@@ -0,0 +1,141 @@
+import type { Bot, Context } from 'grammy'
+import type { ChatSettings } from './settings'
+import { InlineKeyboard } from 'grammy'
+import { isAdmin } from './access'
+import { getChatSettings, OUTPUT_FORMATS, updateChatSettings } from './settings'
+
+const MENU_LANGUAGES = ['en', 'it', 'de', 'fr', 'es', 'pt', 'nl', 'pl', 'ru', 'uk']
+
+const OUTPUT_FORMAT_LABELS: Record<ChatSettings['outputFormat'], string> = {
+  text: 'messages',
+  txt: '.txt file',
+  srt: '.srt subtitles',
+  vtt: '.vtt subtitles',
+  json: '.json with timestamps',
+}
+
+/**
+ * Registers /settings and its inline keyboard. In groups only chat
+ * administrators (and bot admins) may change anything.
+ */
+export function registerSettingsMenu(bot: Bot) {
+  bot.command('settings', async (ctx) => {
+    if (!(await canEditSettings(ctx))) {
+      await ctx.reply('Only chat administrators can change settings here.')
+      return
+    }
+
+    const settings = getChatSettings(ctx.chat.id)
+    const group = isGroup(ctx)
+    await ctx.reply(formatSettings(settings, group), { reply_markup: mainKeyboard(settings, group) })
+  })
+
+  bot.callbackQuery(/^settings:(\w+)(?::(\w+))?$/, async (ctx) => {
+    const chatId = ctx.chat?.id
+    if (chatId === undefined || !(await canEditSettings(ctx))) {
+      await ctx.answerCallbackQuery({ text: 'Only chat administrators can change settings here.' })
+      return
+    }
+
+    const [, action, value] = ctx.match
+    const group = isGroup(ctx)
+    let settings = getChatSettings(chatId)
+
+    if (action === 'close') {
+      await ctx.answerCallbackQuery()
+      await ctx.editMessageText(formatSettings(settings, group)).catch(() => {})
+      return
+    }
+
+    if (action === 'lang' && !value) {
+      await ctx.answerCallbackQuery()
+      await ctx.editMessageReplyMarkup({ reply_markup: languageKeyboard(settings) }).catch(() => {})
+      return
+    }
+
+    if (action === 'lang')
+      settings = updateChatSettings(chatId, { language: value === 'auto' ? null : value })
+    else if (action === 'detect')
+      settings = updateChatSettings(chatId, { showLanguage: !settings.showLanguage })
+    else if (action === 'speakers')
+      settings = updateChatSettings(chatId, { diarize: !settings.diarize })
+    else if (action === 'quote')
+      settings = updateChatSettings(chatId, { replyAsQuote: !settings.replyAsQuote })
+    else if (action === 'format')
+      settings = updateChatSettings(chatId, { outputFormat: nextOutputFormat(settings.outputFormat) })
+    else if (action === 'auto' && group)
+      settings = updateChatSettings(chatId, { autoTranscribe: !settings.autoTranscribe })
+
+    await ctx.answerCallbackQuery({ text: 'Saved.' })
+    await ctx.editMessageText(formatSettings(settings, group), { reply_markup: mainKeyboard(settings, group) }).catch(() => {})
+  })
+}
+
+async function canEditSettings(ctx: Context) {
+  const chat = ctx.chat
+  const userId = ctx.from?.id
+  if (!chat || userId === undefined)
+    return false
+  if (chat.type === 'private' || isAdmin(userId))
+    return true
+
+  const member = await ctx.api.getChatMember(chat.id, userId).catch(() => null)
+  return member?.status === 'creator' || member?.status === 'administrator'
+}
+
+function isGroup(ctx: Context) {
+  return ctx.chat?.type === 'group' || ctx.chat?.type === 'supergroup'
+}
+
+// Groups always get threaded replies, so they see auto-transcribe instead of reply as quote.
+function formatSettings(settings: ChatSettings, group: boolean) {
+  return [
+    'Settings for this chat:',
+    `Language: ${settings.language ?? 'auto-detect'}`,
+    `Show detected language: ${onOff(settings.showLanguage)}`,
+    group
+      ? `Auto-transcribe: ${onOff(settings.autoTranscribe)}`
+      : `Reply as quote: ${onOff(settings.replyAsQuote)}`,
+    `Speaker labels: ${onOff(settings.diarize)}`,
+    `Output: ${OUTPUT_FORMAT_LABELS[settings.outputFormat]}`,
+  ].join('\n')
+}
+
+function mainKeyboard(settings: ChatSettings, group: boolean) {
+  return new InlineKeyboard()
+    .text(`Language: ${settings.language ?? 'auto'}`, 'settings:lang')
+    .row()
+    .text(`Show detected language: ${onOff(settings.showLanguage)}`, 'settings:detect')
+    .row()
+    .text(
+      group ? `Auto-transcribe: ${onOff(settings.autoTranscribe)}` : `Reply as quote: ${onOff(settings.replyAsQuote)}`,
+      group ? 'settings:auto' : 'settings:quote',
+    )
+    .row()
+    .text(`Speaker labels: ${onOff(settings.diarize)}`, 'settings:speakers')
+    .row()
+    .text(`Output: ${OUTPUT_FORMAT_LABELS[settings.outputFormat]}`, 'settings:format')
+    .row()
+    .text('Done', 'settings:close')
+}
+
+function languageKeyboard(settings: ChatSettings) {
+  const keyboard = new InlineKeyboard()
+  MENU_LANGUAGES.forEach((code, index) => {
+    keyboard.text(code === settings.language ? `• ${code}` : code, `settings:lang:${code}`)
+    if (index % 5 === 4)
+      keyboard.row()
+  })
+  return keyboard
+    .row()
+    .text(settings.language ? 'auto-detect' : '• auto-detect', 'settings:lang:auto')
+}
+
+function nextOutputFormat(current: ChatSettings['outputFormat']) {
+  const index = OUTPUT_FORMATS.indexOf(current)
+  return OUTPUT_FORMATS[(index + 1) % OUTPUT_FORMATS.length]
+}
+
+function onOff(value: boolean) {
+  return value ? 'on' : 'off'
+}
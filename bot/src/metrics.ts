@@ -0,0 +1,122 @@
+import { log } from './logger'
+import { getQueueSummary } from './queue'
+
+type Labels = Record<string, string>
+
+interface Metric {
+  render: () => string[]
+}
+
+const LATENCY_BUCKETS_SEC = [0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1200]
+
+const registry: Metric[] = []
+
+export const jobsTotal = counter(
+  'lewhisperrr_jobs_total',
+  'Jobs the worker finished, by outcome (done, no_speech, cached, failed, cancelled, interrupted) and media type.',
+)
+
+export const jobFailuresTotal = counter(
+  'lewhisperrr_job_failures_total',
+  'Failed jobs by error kind (see errors.ts).',
+)
+
+export const stageSeconds = histogram(
+  'lewhisperrr_stage_duration_seconds',
+  'Time spent per pipeline stage (download, ffmpeg, asr, total).',
+  LATENCY_BUCKETS_SEC,
+)
+
+export const sttRetriesTotal = counter(
+  'lewhisperrr_stt_retries_total',
+  'STT requests retried after a failed attempt.',
+)
+
+export const sttResponsesTotal = counter(
+  'lewhisperrr_stt_responses_total',
+  'STT provider HTTP responses by status code; `error` when no response arrived.',
+)
+
+gauge('lewhisperrr_queue_depth', 'Jobs waiting in the queue.', () => getQueueSummary().queued)
+gauge('lewhisperrr_jobs_running', 'Jobs currently being processed.', () => getQueueSummary().running)
+
+/** All registered metrics in the Prometheus text exposition format. */
+export function renderMetrics() {
+  return `${registry.flatMap(metric => metric.render()).join('\n')}\n`
+}
+
+function counter(name: string, help: string) {
+  const values = new Map<string, number>()
+  registry.push({
+    render: () => [
+      ...header(name, help, 'counter'),
+      ...[...values].map(([labels, value]) => `${name}${labels} ${value}`),
+    ],
+  })
+
+  return {
+    inc(labels: Labels = {}, value = 1) {
+      const key = formatLabels(labels)
+      values.set(key, (values.get(key) ?? 0) + value)
+    },
+  }
+}
+
+function histogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels, counts: number[], sum: number, count: number }>()
+  registry.push({
+    render: () => [
+      ...header(name, help, 'histogram'),
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((le, index) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  })
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = formatLabels(labels)
+      let entry = series.get(key)
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+        series.set(key, entry)
+      }
+
+      buckets.forEach((le, index) => {
+        if (value <= le)
+          entry.counts[index]++
+      })
+      entry.sum += value
+      entry.count++
+    },
+  }
+}
+
+// Gauges are read at scrape time, so they can never drift from the source.
+function gauge(name: string, help: string, collect: () => number) {
+  registry.push({
+    render: () => {
+      let value = Number.NaN
+      try {
+        value = collect()
+      }
+      catch (error) {
+        log.warn('metric collection failed', { name, error })
+      }
+      return [...header(name, help, 'gauge'), `${name} ${value}`]
+    },
+  })
+}
+
+function header(name: string, help: string, type: string) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+  return pairs.length ? `{${pairs.join(',')}}` : ''
+}
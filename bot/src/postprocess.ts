@@ -0,0 +1,219 @@
+import type { Database } from 'bun:sqlite'
+import type { Bot, Context } from 'grammy'
+import type { CacheVariant } from './cache'
+import type { LlmConfig } from './config'
+import { InlineKeyboard } from 'grammy'
+import { checkLlmAccess, recordLlmUsage } from './access'
+import { getCachedTranscript } from './cache'
+import { getConfig } from './config'
+import { getDb as getSharedDb } from './db'
+import { fetchWithTimeout } from './http'
+import { log } from './logger'
+import { splitForTelegram, TELEGRAM_MESSAGE_MAX_CHARS } from './split'
+
+const LLM_TIMEOUT_MS = 90_000
+// Keeps requests inside small context windows; roughly an hour of speech.
+const LLM_MAX_INPUT_CHARS = 60_000
+const RESULT_TTL_MS = 30 * 86_400_000
+
+export const POSTPROCESS_ACTIONS = ['summary', 'actions', 'translate'] as const
+
+export type PostprocessAction = (typeof POSTPROCESS_ACTIONS)[number]
+
+/** Where the transcript cache keeps the text the buttons work on. */
+export interface TranscriptRef {
+  key: string
+  variant: CacheVariant
+}
+
+// Results of the same press are shared instead of calling the LLM twice.
+const inFlight = new Map<string, Promise<string>>()
+
+function getDb() {
+  return getSharedDb('postprocess', createPostprocessTables)
+}
+
+function createPostprocessTables(db: Database) {
+  // Transcripts used to be copied here in full; the text now stays in the transcript cache.
+  db.run('DROP TABLE IF EXISTS postprocess_transcripts')
+  db.run(`CREATE TABLE IF NOT EXISTS postprocess_refs (
+    id TEXT PRIMARY KEY,
+    cache_key TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`)
+  db.run(`CREATE TABLE IF NOT EXISTS postprocess_results (
+    transcript_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    result TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (transcript_id, action)
+  )`)
+}
+
+/**
+ * Returns the buttons to attach under a transcript, or undefined when
+ * post-processing is off (neither LLM_BASE_URL nor LLM_API_KEY is set). Any
+ * OpenAI-compatible /chat/completions endpoint works. Only a pointer to the
+ * cached transcript is stored; identical transcripts share an id, so their
+ * results are cached together.
+ */
+export function postprocessKeyboard(text: string, ref: TranscriptRef) {
+  const config = getConfig().llm
+  if (!config || !text.trim())
+    return undefined
+
+  const id = new Bun.CryptoHasher('sha256').update(text).digest('hex').slice(0, 16)
+  const db = getDb()
+  const now = Date.now()
+  db.run(
+    'INSERT OR REPLACE INTO postprocess_refs (id, cache_key, variant, created_at) VALUES (?, ?, ?, ?)',
+    [id, ref.key, JSON.stringify(ref.variant), now],
+  )
+  db.run('DELETE FROM postprocess_refs WHERE created_at < ?', [now - RESULT_TTL_MS])
+  db.run('DELETE FROM postprocess_results WHERE created_at < ?', [now - RESULT_TTL_MS])
+
+  return new InlineKeyboard()
+    .text('Summarize', `pp:summary:${id}`)
+    .text('Action items', `pp:actions:${id}`)
+    .row()
+    .text(`Translate to ${languageName(config.translateTo)}`, `pp:translate:${id}`)
+}
+
+/**
+ * Handles the buttons from postprocessKeyboard; results reply to the
+ * transcript message. Whoever presses is checked like a sender of audio, so
+ * group members outside the allowlist cannot spend the LLM budget.
+ */
+export function registerPostprocessActions(bot: Bot) {
+  bot.callbackQuery(/^pp:(summary|actions|translate):([0-9a-f]{16})$/, async (ctx) => {
+    const [, action, id] = ctx.match
+    const config = getConfig().llm
+    const message = ctx.callbackQuery.message
+    if (!config || !message) {
+      await ctx.answerCallbackQuery({ text: 'Post-processing is not available.' })
+      return
+    }
+
+    const refusal = checkLlmAccess(ctx.from.id, message.chat.id)
+    if (refusal) {
+      await ctx.answerCallbackQuery({ text: refusal, show_alert: true })
+      return
+    }
+
+    const text = loadTranscriptText(id)
+    if (!text) {
+      await ctx.answerCallbackQuery({ text: 'This transcript has expired.' })
+      return
+    }
+
+    await ctx.answerCallbackQuery({ text: 'Working on it…' })
+    // The LLM can take up to LLM_TIMEOUT_MS; waiting here would hold up every
+    // other update while polling, so the answer is sent when it arrives.
+    void replyWithResult(ctx, config, id, action as PostprocessAction, text, message.message_id, ctx.from.id)
+  })
+}
+
+/** Runs in the background; failures are logged and reported to the chat, never thrown. */
+async function replyWithResult(ctx: Context, config: LlmConfig, id: string, action: PostprocessAction, text: string, messageId: number, userId: number) {
+  const replyTo = { reply_parameters: { message_id: messageId, allow_sending_without_reply: true } }
+  try {
+    await ctx.replyWithChatAction('typing').catch(() => {})
+    const result = await runAction(config, id, action, text, userId)
+    for (const [index, chunk] of splitForTelegram(result, TELEGRAM_MESSAGE_MAX_CHARS).entries())
+      await ctx.reply(chunk, index === 0 ? replyTo : {})
+  }
+  catch (error) {
+    log.error('post-processing failed', { id, action, error })
+    await ctx.reply('Sorry, that did not work. Please try again later.', replyTo)
+      .catch(error => log.warn('post-processing failure notice failed', { id, error }))
+  }
+}
+
+function loadTranscriptText(id: string) {
+  const ref = getDb()
+    .query<{ cache_key: string, variant: string }, [string]>('SELECT cache_key, variant FROM postprocess_refs WHERE id = ?')
+    .get(id)
+  if (!ref)
+    return null
+  return getCachedTranscript(ref.cache_key, JSON.parse(ref.variant) as CacheVariant)?.transcript.text || null
+}
+
+async function runAction(config: LlmConfig, id: string, action: PostprocessAction, text: string, userId: number) {
+  // Translations are cached per target language, which can change between restarts.
+  const cacheAction = action === 'translate' ? `translate:${config.translateTo}` : action
+  const cached = getDb()
+    .query<{ result: string }, [string, string]>(
+      'SELECT result FROM postprocess_results WHERE transcript_id = ? AND action = ?',
+    )
+    .get(id, cacheAction)
+  if (cached)
+    return cached.result
+
+  const key = `${id}:${cacheAction}`
+  let pending = inFlight.get(key)
+  if (!pending) {
+    recordLlmUsage(userId)
+    pending = complete(config, promptFor(action, config), text)
+      .then((result) => {
+        getDb().run(
+          'INSERT OR REPLACE INTO postprocess_results (transcript_id, action, result, created_at) VALUES (?, ?, ?, ?)',
+          [id, cacheAction, result, Date.now()],
+        )
+        return result
+      })
+      .finally(() => inFlight.delete(key))
+    inFlight.set(key, pending)
+  }
+  return pending
+}
+
+function promptFor(action: PostprocessAction, config: LlmConfig) {
+  switch (action) {
+    case 'summary':
+      return 'Summarize this voice message transcript in a few short bullet points, in the language of the transcript. Reply with the summary only.'
+    case 'actions':
+      return 'List the action items in this voice message transcript (task, owner and deadline when mentioned) as short bullet points, in the language of the transcript. If there are none, say so in one sentence.'
+    case 'translate':
+      return `Translate this voice message transcript into ${languageName(config.translateTo)}. Keep speaker labels and line breaks. Reply with the translation only.`
+  }
+}
+
+async function complete(config: LlmConfig, instructions: string, text: string) {
+  const input = text.length > LLM_MAX_INPUT_CHARS ? `${text.slice(0, LLM_MAX_INPUT_CHARS)}\n[…truncated]` : text
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (config.apiKey)
+    headers.Authorization = `Bearer ${config.apiKey}`
+
+  const res = await fetchWithTimeout(`${config.baseUrl}/chat/completions`, LLM_TIMEOUT_MS, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: instructions },
+        { role: 'user', content: input },
+      ],
+    }),
+  })
+  if (!res.ok) {
+    const body = await res.text().catch(() => '')
+    throw new Error(`LLM failed: ${res.status} ${body}`)
+  }
+
+  const data = await res.json() as any
+  const content = data?.choices?.[0]?.message?.content
+  if (typeof content !== 'string' || !content.trim())
+    throw new Error('LLM returned no text')
+  return content.trim()
+}
+
+function languageName(code: string) {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code
+  }
+  catch {
+    return code
+  }
+}
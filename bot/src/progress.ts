@@ -0,0 +1,134 @@
+import type { Api } from 'grammy'
+import type { AudioJob } from './queue'
+import { InlineKeyboard } from 'grammy'
+import { log } from './logger'
+
+const MIN_EDIT_INTERVAL_MS = 3000
+
+export type ProgressStage
+  = | 'queued'
+    | 'restarting'
+    | 'downloading'
+    | 'converting'
+    | 'transcribing'
+    | 'done'
+    | 'no_speech'
+    | 'failed'
+    | 'cancelled'
+    | 'interrupted'
+
+export interface ProgressUpdate {
+  stage: ProgressStage
+  position?: number
+  receivedBytes?: number
+  totalBytes?: number
+  elapsedMs?: number
+  eta?: string | null
+  part?: number
+  parts?: number
+  /** For `failed`: what went wrong, worded for the user. */
+  reason?: string
+}
+
+const FINAL_STAGES = new Set<ProgressStage>(['done', 'no_speech', 'failed', 'cancelled', 'interrupted'])
+
+export function cancelKeyboard(jobId: number) {
+  return new InlineKeyboard().text('Cancel', `cancel:${jobId}`)
+}
+
+export function formatProgress(jobId: number, update: ProgressUpdate) {
+  const job = `Job #${jobId}`
+
+  switch (update.stage) {
+    case 'queued':
+      return update.position && update.position > 1
+        ? `Got it! ${job} is queued, position ${update.position} in line.`
+        : `Got it! ${job} is next in line.`
+    case 'restarting':
+      return `${job}: I am restarting. Your message stays in the queue and is transcribed once I am back.`
+    case 'downloading': {
+      const { receivedBytes = 0, totalBytes } = update
+      if (totalBytes && totalBytes > 0) {
+        const percent = Math.min(100, Math.floor((receivedBytes / totalBytes) * 100))
+        return `${job}: downloading… ${percent}%`
+      }
+      return `${job}: downloading… ${(receivedBytes / (1024 * 1024)).toFixed(1)}MB`
+    }
+    case 'converting':
+      return `${job}: converting audio…`
+    case 'transcribing': {
+      const parts = update.parts && update.parts > 1 ? ` (part ${update.part}/${update.parts})` : ''
+      const eta = update.eta ? ` ${update.eta}.` : ''
+      return `${job}: transcribing${parts}… ${formatClock(update.elapsedMs ?? 0)} elapsed.${eta}`
+    }
+    case 'done':
+      return `${job} done in ${formatClock(update.elapsedMs ?? 0)}.`
+    case 'no_speech':
+      return `${job}: no speech detected.`
+    case 'failed':
+      return update.reason ? `${job} failed: ${update.reason}` : `${job} failed. Please try again later.`
+    case 'cancelled':
+      return `${job} cancelled.`
+    case 'interrupted':
+      return `${job} was interrupted by a restart. I will try again once I am back.`
+  }
+}
+
+/**
+ * Keeps one status message per job up to date. Edits within a stage are
+ * throttled to stay clear of Telegram's flood limits; stage changes and final
+ * states always go through. Jobs without a status message get one on the
+ * first update.
+ */
+export function createProgressReporter(api: Api, job: AudioJob & { id: number }) {
+  let messageId = job.statusMessageId
+  let lastText = ''
+  let lastStage: ProgressStage | null = null
+  let lastEditAt = 0
+  let pending = Promise.resolve()
+
+  async function render(update: ProgressUpdate) {
+    const text = formatProgress(job.id, update)
+    if (text === lastText)
+      return
+
+    const now = Date.now()
+    if (update.stage === lastStage && now - lastEditAt < MIN_EDIT_INTERVAL_MS)
+      return
+
+    lastText = text
+    lastStage = update.stage
+    lastEditAt = now
+
+    const replyMarkup = FINAL_STAGES.has(update.stage) ? undefined : cancelKeyboard(job.id)
+    try {
+      if (messageId) {
+        await api.editMessageText(job.chatId, messageId, text, { reply_markup: replyMarkup })
+      }
+      else {
+        const message = await api.sendMessage(job.chatId, text, {
+          message_thread_id: job.threadId,
+          reply_markup: replyMarkup,
+        })
+        messageId = message.message_id
+      }
+    }
+    catch (error) {
+      log.warn('progress update failed', { job: job.id, error })
+    }
+  }
+
+  return {
+    update(update: ProgressUpdate) {
+      pending = pending.then(() => render(update))
+      return pending
+    },
+  }
+}
+
+function formatClock(ms: number) {
+  const totalSec = Math.max(0, Math.round(ms / 1000))
+  const minutes = Math.floor(totalSec / 60)
+  const seconds = totalSec % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
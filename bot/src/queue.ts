@@ -1,30 +1,333 @@
-const concurrency = 1
-const maxQueue = 20
+import type { Database } from 'bun:sqlite'
+import { getConfig } from './config'
+import { getDb as getSharedDb } from './db'
+import { delay } from './http'
+import { log, withLogContext } from './logger'
 
-let running = 0
-const q: Array<() => Promise<void>> = []
+const FINISHED_RETENTION_DAYS = 7
+// Time aborted jobs get to kill ffmpeg, remove their temp files and tell their users.
+const ABORT_GRACE_MS = 5_000
 
-export function enqueue(job: () => Promise<void>) {
-  if (maxQueue > 0 && q.length >= maxQueue) {
-    return false
+export type MediaType = 'voice' | 'audio' | 'video' | 'video_note' | 'document'
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export type CancelResult = 'cancelled' | 'not_found' | 'finished'
+
+/** Everything needed to process a media message without its grammY Context. */
+export interface AudioJob {
+  chatId: number
+  messageId: number
+  threadId?: number
+  userId?: number
+  /** Sent in a group or supergroup; results reply to the original message. */
+  inGroup?: boolean
+  fileId: string
+  /** Stable across bots and re-uploads of the same file; keys the transcript cache. */
+  fileUniqueId?: string
+  mediaType: MediaType
+  duration?: number
+  fileSize?: number
+  fileName?: string
+  mimeType?: string
+  /** Acknowledgement message that is edited as the job progresses. */
+  statusMessageId?: number
+}
+
+export interface QueuedJob extends AudioJob {
+  id: number
+  status: JobStatus
+  attempts: number
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface JobRow {
+  id: number
+  chat_id: number
+  user_id: number | null
+  payload: string
+  status: JobStatus
+  attempts: number
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ResumeResult {
+  resumed: QueuedJob[]
+  abandoned: QueuedJob[]
+}
+
+export interface DrainResult {
+  /** Still waiting; they stay in the database and run after the restart. */
+  queued: QueuedJob[]
+  /** Aborted at the deadline; the next start requeues them like after a crash. */
+  interrupted: QueuedJob[]
+}
+
+interface ActiveJob {
+  job: QueuedJob
+  controller: AbortController
+  settled: Promise<void>
+}
+
+let runJob: ((job: QueuedJob, signal: AbortSignal) => Promise<void>) | null = null
+let draining = false
+const active = new Map<number, ActiveJob>()
+// Abort reason of jobs cut short by drainQueue, as opposed to /cancel.
+const shutdownReason = new Error('shutting down')
+
+function getDb() {
+  return getSharedDb('jobs', createJobsTable)
+}
+
+function createJobsTable(db: Database) {
+  db.run(`CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_id INTEGER NOT NULL,
+    user_id INTEGER,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`)
+  db.run('CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status, id)')
+}
+
+function toQueuedJob(row: JobRow): QueuedJob {
+  return {
+    ...(JSON.parse(row.payload) as AudioJob),
+    id: row.id,
+    status: row.status,
+    attempts: row.attempts,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function listByStatus(status: JobStatus) {
+  return getDb()
+    .query<JobRow, [JobStatus]>('SELECT * FROM jobs WHERE status = ? ORDER BY id')
+    .all(status)
+    .map(toQueuedJob)
+}
+
+function setStatus(id: number, status: JobStatus, error: string | null = null) {
+  getDb().run(
+    'UPDATE jobs SET status = ?, error = ?, updated_at = ? WHERE id = ?',
+    [status, error, new Date().toISOString(), id],
+  )
+}
+
+/**
+ * Attaches the job runner and recovers jobs left over from the previous
+ * process. Jobs that were running when it died go back to the queue until
+ * they have used up their attempts.
+ */
+export function startQueue(handler: (job: QueuedJob, signal: AbortSignal) => Promise<void>): ResumeResult {
+  runJob = handler
+
+  const database = getDb()
+  const cutoff = new Date(Date.now() - FINISHED_RETENTION_DAYS * 86_400_000).toISOString()
+  database.run('DELETE FROM jobs WHERE status IN (\'done\', \'failed\') AND updated_at < ?', [cutoff])
+
+  const abandoned: QueuedJob[] = []
+  for (const job of listByStatus('running')) {
+    if (job.attempts >= getConfig().queue.maxAttempts) {
+      setStatus(job.id, 'failed', 'interrupted too many times')
+      abandoned.push(job)
+    }
+    else {
+      setStatus(job.id, 'queued')
+    }
+  }
+
+  const resumed = listByStatus('queued')
+  pump()
+  return { resumed, abandoned }
+}
+
+export function isQueueFull() {
+  const { depth } = getDb()
+    .query<{ depth: number }, []>('SELECT COUNT(*) AS depth FROM jobs WHERE status = \'queued\'')
+    .get()!
+  const { maxQueue } = getConfig().queue
+  return maxQueue > 0 && depth >= maxQueue
+}
+
+/**
+ * Stores the job and starts it when a slot is free. `onCreated` runs before
+ * that, so bookkeeping keyed by the job id is in place even for a job that
+ * finishes without ever waiting in the queue.
+ */
+export function enqueue(job: AudioJob, onCreated?: (queued: QueuedJob) => void): QueuedJob | null {
+  if (isQueueFull()) {
+    return null
   }
 
-  q.push(job)
+  const database = getDb()
+  const now = new Date().toISOString()
+  const row = database
+    .query<JobRow, [number, number | null, string, string, string]>(
+      'INSERT INTO jobs (chat_id, user_id, payload, status, attempts, created_at, updated_at) VALUES (?, ?, ?, \'queued\', 0, ?, ?) RETURNING *',
+    )
+    .get(job.chatId, job.userId ?? null, JSON.stringify(job), now, now)!
+
+  const queued = toQueuedJob(row)
+  onCreated?.(queued)
   pump()
-  return true
+  return queued
+}
+
+export function getQueueSummary() {
+  const counts = getDb()
+    .query<{ status: JobStatus, count: number }, []>(
+      'SELECT status, COUNT(*) AS count FROM jobs WHERE status IN (\'queued\', \'running\') GROUP BY status',
+    )
+    .all()
+  const lastFailure = getDb()
+    .query<JobRow, []>('SELECT * FROM jobs WHERE status = \'failed\' ORDER BY updated_at DESC LIMIT 1')
+    .get()
+
+  return {
+    queued: counts.find(row => row.status === 'queued')?.count ?? 0,
+    running: counts.find(row => row.status === 'running')?.count ?? 0,
+    lastFailure: lastFailure ? toQueuedJob(lastFailure) : null,
+  }
+}
+
+export function getJob(id: number) {
+  const row = getDb()
+    .query<JobRow, [number]>('SELECT * FROM jobs WHERE id = ?')
+    .get(id)
+  return row ? toQueuedJob(row) : null
+}
+
+/** 1-based place among queued jobs; 0 once the job is running, null when it is finished or unknown. */
+export function getQueuePosition(id: number) {
+  const row = getDb()
+    .query<{ status: JobStatus }, [number]>('SELECT status FROM jobs WHERE id = ?')
+    .get(id)
+  if (!row)
+    return null
+  if (row.status === 'running')
+    return 0
+  if (row.status !== 'queued')
+    return null
+
+  const { ahead } = getDb()
+    .query<{ ahead: number }, [number]>('SELECT COUNT(*) AS ahead FROM jobs WHERE status = \'queued\' AND id < ?')
+    .get(id)!
+  return ahead + 1
+}
+
+/** Running and queued jobs of one user, oldest first. */
+export function listPendingJobs(userId: number) {
+  return getDb()
+    .query<JobRow, [number]>('SELECT * FROM jobs WHERE user_id = ? AND status IN (\'queued\', \'running\') ORDER BY id')
+    .all(userId)
+    .map(toQueuedJob)
+}
+
+/**
+ * Cancels a queued job outright, or aborts a running one (its fetches and
+ * ffmpeg process observe the signal). Passing `userId` restricts the
+ * cancellation to jobs that user submitted.
+ */
+export function cancelJob(id: number, userId?: number): CancelResult {
+  const row = getDb()
+    .query<JobRow, [number]>('SELECT * FROM jobs WHERE id = ?')
+    .get(id)
+  if (!row || (userId !== undefined && row.user_id !== userId))
+    return 'not_found'
+
+  if (row.status === 'queued') {
+    setStatus(id, 'cancelled')
+    return 'cancelled'
+  }
+
+  if (row.status === 'running') {
+    active.get(id)?.controller.abort(new Error('cancelled'))
+    return 'cancelled'
+  }
+
+  return 'finished'
+}
+
+/** True when the job's signal was aborted by drainQueue rather than cancelled. */
+export function isShutdownAbort(signal: AbortSignal) {
+  return signal.aborted && signal.reason === shutdownReason
+}
+
+/**
+ * Stops starting jobs and gives the running ones until `timeoutMs` to
+ * finish. Whatever is still running then is aborted and keeps its `running`
+ * status, so startQueue requeues it on the next start.
+ */
+export async function drainQueue(timeoutMs: number): Promise<DrainResult> {
+  draining = true
+
+  const settledAll = () => Promise.all([...active.values()].map(entry => entry.settled))
+  if (active.size) {
+    log.info('waiting for running jobs', { jobs: [...active.keys()], timeoutMs })
+    await Promise.race([settledAll(), delay(timeoutMs)])
+  }
+
+  const interrupted = [...active.values()].map(entry => entry.job)
+  if (interrupted.length) {
+    log.warn('aborting running jobs', { jobs: interrupted.map(job => job.id) })
+    for (const entry of active.values())
+      entry.controller.abort(shutdownReason)
+    await Promise.race([settledAll(), delay(ABORT_GRACE_MS)])
+  }
+
+  return { queued: listByStatus('queued'), interrupted }
 }
 
 function pump() {
-  while (running < concurrency && q.length) {
-    const job = q.shift()!
-    running++
-    job()
+  if (!runJob || draining)
+    return
+
+  while (active.size < getConfig().queue.concurrency) {
+    const row = getDb()
+      .query<JobRow, []>('SELECT * FROM jobs WHERE status = \'queued\' ORDER BY id LIMIT 1')
+      .get()
+    if (!row)
+      return
+
+    const job = toQueuedJob(row)
+    job.attempts += 1
+    getDb().run(
+      'UPDATE jobs SET status = \'running\', attempts = ?, updated_at = ? WHERE id = ?',
+      [job.attempts, new Date().toISOString(), job.id],
+    )
+
+    const controller = new AbortController()
+    const { signal } = controller
+    // Everything the job logs, down to ffmpeg runs and STT retries, carries its ID.
+    const handler = runJob
+    const settled = withLogContext({ job: job.id }, () => handler(job, signal)
+      .then(() => setStatus(job.id, signal.aborted && !isShutdownAbort(signal) ? 'cancelled' : 'done'))
       .catch((error) => {
-        console.error('job failed', error)
+        // Left as running; the next start decides between requeueing and giving up.
+        if (isShutdownAbort(signal))
+          return
+        if (signal.aborted) {
+          setStatus(job.id, 'cancelled')
+          return
+        }
+        log.error('job failed', { error })
+        setStatus(job.id, 'failed', error instanceof Error ? error.message : String(error))
       })
       .finally(() => {
-        running--
+        active.delete(job.id)
         pump()
-      })
+      }))
+    active.set(job.id, { job, controller, settled })
   }
 }
@@ -0,0 +1,79 @@
+import type { Database } from 'bun:sqlite'
+import { getDb as getSharedDb } from './db'
+
+export const OUTPUT_FORMATS = ['text', 'txt', 'srt', 'vtt', 'json'] as const
+
+/** `text` replies with messages, the others with a transcript file of that type. */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+export interface ChatSettings {
+  /** Language hint for the STT provider; null means auto-detect. */
+  language: string | null
+  /** Prefix transcripts with the language the provider detected. */
+  showLanguage: boolean
+  /** Send transcripts as replies quoting the original media message. */
+  replyAsQuote: boolean
+  /** Ask the provider for speakers and reply as `Speaker 1: …` turns. */
+  diarize: boolean
+  outputFormat: OutputFormat
+  /**
+   * Groups only: transcribe every media message instead of waiting for
+   * `/transcribe` or a mention. Off until a group admin opts in, so adding the
+   * bot to a busy group does not transcribe (and bill) every voice note.
+   */
+  autoTranscribe: boolean
+}
+
+const defaultSettings: ChatSettings = {
+  language: null,
+  showLanguage: false,
+  replyAsQuote: false,
+  diarize: false,
+  outputFormat: 'text',
+  autoTranscribe: false,
+}
+
+function getDb() {
+  return getSharedDb('chat_settings', createSettingsTable)
+}
+
+function createSettingsTable(db: Database) {
+  db.run(`CREATE TABLE IF NOT EXISTS chat_settings (
+    chat_id INTEGER PRIMARY KEY,
+    settings TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`)
+}
+
+export function getChatSettings(chatId: number): ChatSettings {
+  const row = getDb()
+    .query<{ settings: string }, [number]>('SELECT settings FROM chat_settings WHERE chat_id = ?')
+    .get(chatId)
+
+  if (!row)
+    return { ...defaultSettings }
+
+  try {
+    return { ...defaultSettings, ...(JSON.parse(row.settings) as Partial<ChatSettings>) }
+  }
+  catch {
+    return { ...defaultSettings }
+  }
+}
+
+export function updateChatSettings(chatId: number, patch: Partial<ChatSettings>) {
+  const settings = { ...getChatSettings(chatId), ...patch }
+  getDb().run(
+    'INSERT OR REPLACE INTO chat_settings (chat_id, settings, updated_at) VALUES (?, ?, ?)',
+    [chatId, JSON.stringify(settings), new Date().toISOString()],
+  )
+  return settings
+}
+
+/** Accepts two- or three-letter ISO 639 codes; `auto` clears the hint. */
+export function parseLanguageCode(input: string) {
+  const code = input.trim().toLowerCase()
+  if (code === 'auto')
+    return null
+  return /^[a-z]{2,3}$/.test(code) ? code : undefined
+}
@@ -0,0 +1,69 @@
+export const TELEGRAM_MESSAGE_MAX_CHARS = 3900
+
+/**
+ * Joins blocks (speaker turns, or a header and the text) into as few messages
+ * as fit, never cutting a block that fits into one message on its own. Longer
+ * blocks are split with splitForTelegram.
+ */
+export function packForTelegram(blocks: string[], maxChars: number) {
+  const messages: string[] = []
+  let current = ''
+
+  for (const block of blocks) {
+    const joined = current ? `${current}\n\n${block}` : block
+    if (joined.length <= maxChars) {
+      current = joined
+      continue
+    }
+
+    if (current)
+      messages.push(current)
+
+    if (block.length <= maxChars) {
+      current = block
+      continue
+    }
+
+    const pieces = splitForTelegram(block, maxChars)
+    messages.push(...pieces.slice(0, -1))
+    current = pieces.at(-1) ?? ''
+  }
+
+  if (current)
+    messages.push(current)
+
+  return messages.length ? messages : ['']
+}
+
+export function splitForTelegram(text: string, maxChars: number) {
+  const safeMax = Number.isFinite(maxChars) && maxChars > 0 ? Math.floor(maxChars) : 3900
+  const input = text.replace(/\r\n/g, '\n')
+  const chunks: string[] = []
+  let rest = input
+
+  while (rest.length > safeMax) {
+    const slice = rest.slice(0, safeMax)
+    const cut = findSplitPoint(slice, safeMax)
+    const chunk = rest.slice(0, cut).trimEnd()
+    if (chunk)
+      chunks.push(chunk)
+    rest = rest.slice(cut).trimStart()
+  }
+
+  if (rest)
+    chunks.push(rest)
+
+  return chunks.length ? chunks : ['']
+}
+
+function findSplitPoint(slice: string, maxChars: number) {
+  const minPreferred = Math.floor(maxChars * 0.6)
+  const candidates = [slice.lastIndexOf('\n\n'), slice.lastIndexOf('\n'), slice.lastIndexOf(' ')]
+
+  for (const idx of candidates) {
+    if (idx >= minPreferred)
+      return idx + 1
+  }
+
+  return maxChars
+}
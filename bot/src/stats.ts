@@ -1,10 +1,28 @@
-import { promises as fs } from 'node:fs'
+import type { Database } from 'bun:sqlite'
+import type { ErrorKind } from './errors'
+import type { AudioJob } from './queue'
+import { existsSync, readFileSync, renameSync } from 'node:fs'
 import path from 'node:path'
-
-const STATS_PATH = '/data/stats.json'
-const MODEL_NAME = 'scribe_v2'
-
-export interface Stats {
+import { getConfig } from './config'
+import { getDb as getSharedDb } from './db'
+import { log } from './logger'
+
+// Stats used to be cumulative averages in this file; it is imported into
+// `legacy_stats` once and renamed so the import never runs twice. A file that
+// cannot be read is set aside as `.unreadable` for the operator to look at.
+const LEGACY_STATS_FILE = 'stats.json'
+// Stats written before providers were configurable all came from this model.
+const LEGACY_MODEL_KEY = 'elevenlabs:scribe_v2'
+const HINT_SAMPLE_JOBS = 100
+const DAY_TABLE_MAX_ROWS = 14
+const MAX_WINDOW_DAYS = 90
+// "All time" in /stats means this far back, plus the imported legacy totals.
+const JOB_LOG_RETENTION_MS = 365 * 86_400_000
+const DAY_SQL = `strftime('%Y-%m-%d', at / 1000, 'unixepoch')`
+const LATENCY_COLUMNS = ['total_ms', 'download_ms', 'ffmpeg_ms', 'asr_ms'] as const
+
+/** Cumulative record kept by the old stats.json; still used for all-time totals and timing hints. */
+export interface LegacyStats {
   totalJobs: number
   successJobs: number
   failedJobs: number
@@ -16,33 +34,66 @@ export interface Stats {
   avgAsrMs: number
   avgAsrMsPerAudioSec: number
   asrRateJobs: number
+  chunkedJobs: number
+  totalChunks: number
+  avgChunkAsrMs: number
+  cacheHits: number
+  cacheMisses: number
   lastError: string | null
   lastJobAt: string | null
 }
 
-interface StatsFile {
-  version: 2
-  model: string
-  stats: Stats
-}
-
-interface LegacyStatsFileV1 {
-  version: 1
-  models: Record<string, Partial<Stats>>
+interface ChunkUpdate {
+  asrMs: number
+  audioSec: number
 }
 
 interface JobUpdate {
   success: boolean
+  /** Answered from the transcript cache; no stage timings are recorded. */
+  cached?: boolean
   totalMs?: number
   downloadMs?: number
   fileSizeMb?: number
   ffmpegMs?: number
   asrMs?: number
   audioSec?: number
+  chunks?: ChunkUpdate[]
+  errorKind?: ErrorKind
   errorMessage?: string
 }
 
-const defaultStats: Stats = {
+export type JobSource = Pick<AudioJob, 'chatId' | 'userId' | 'mediaType'>
+
+export interface StatsQuery {
+  /** Only jobs newer than this many ms; null means all time. */
+  windowMs: number | null
+  userId?: number
+  label: string
+}
+
+type LatencyColumn = (typeof LATENCY_COLUMNS)[number]
+
+/** WHERE conditions shared by every /stats query, with their parameters. */
+interface JobLogFilter {
+  conditions: string[]
+  params: number[]
+}
+
+interface DayRow {
+  day: string
+  jobs: number
+  ok: number
+  audioSec: number
+}
+
+interface Percentiles {
+  group: string
+  p50: number
+  p95: number
+}
+
+const defaultLegacyStats: LegacyStats = {
   totalJobs: 0,
   successJobs: 0,
   failedJobs: 0,
@@ -54,217 +105,400 @@ const defaultStats: Stats = {
   avgAsrMs: 0,
   avgAsrMsPerAudioSec: 0,
   asrRateJobs: 0,
+  chunkedJobs: 0,
+  totalChunks: 0,
+  avgChunkAsrMs: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
   lastError: null,
   lastJobAt: null,
 }
 
-export const CURRENT_MODEL_KEY = `elevenlabs:${MODEL_NAME}`
-
-let cachedStatsFile: StatsFile | null = null
-
-function normalizeStats(input: Partial<Stats> | undefined) {
-  return { ...defaultStats, ...(input ?? {}) }
+function getDb() {
+  return getSharedDb('job_log', createJobLogTables)
 }
 
-function isStats(input: unknown): input is Partial<Stats> {
-  return !!input && typeof input === 'object' && 'totalJobs' in input
+function createJobLogTables(db: Database) {
+  db.run(`CREATE TABLE IF NOT EXISTS job_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    at INTEGER NOT NULL,
+    model_key TEXT NOT NULL,
+    user_id INTEGER,
+    chat_id INTEGER,
+    media_type TEXT,
+    success INTEGER NOT NULL,
+    cached INTEGER NOT NULL,
+    total_ms REAL,
+    download_ms REAL,
+    file_size_mb REAL,
+    ffmpeg_ms REAL,
+    asr_ms REAL,
+    audio_sec REAL,
+    chunks INTEGER,
+    chunk_asr_ms REAL,
+    error_category TEXT,
+    error_message TEXT
+  )`)
+  db.run('CREATE INDEX IF NOT EXISTS job_log_at ON job_log (at)')
+  db.run('CREATE INDEX IF NOT EXISTS job_log_model ON job_log (model_key, at)')
+  db.run(`CREATE TABLE IF NOT EXISTS legacy_stats (
+    model_key TEXT PRIMARY KEY,
+    stats TEXT NOT NULL
+  )`)
+  importLegacyStatsFile(db)
 }
 
-async function loadStatsFile() {
-  if (cachedStatsFile)
-    return cachedStatsFile
+function importLegacyStatsFile(db: Database) {
+  const legacyPath = path.join(getConfig().dataDir, LEGACY_STATS_FILE)
+  if (!existsSync(legacyPath))
+    return
 
+  let models: Record<string, LegacyStats> = {}
   try {
-    const raw = await fs.readFile(STATS_PATH, 'utf8')
-    const parsed = JSON.parse(raw) as unknown
-
-    if (parsed && typeof parsed === 'object' && 'version' in parsed) {
-      const withVersion = parsed as { version?: number }
-
-      if (withVersion.version === 2) {
-        const v2 = parsed as Partial<StatsFile>
-        if (isStats(v2.stats)) {
-          cachedStatsFile = {
-            version: 2,
-            model: typeof v2.model === 'string' && v2.model ? v2.model : CURRENT_MODEL_KEY,
-            stats: normalizeStats(v2.stats),
-          }
-          return cachedStatsFile
-        }
-      }
-
-      if (withVersion.version === 1 && 'models' in (parsed as any)) {
-        const v1 = parsed as LegacyStatsFileV1
-        const current = v1.models?.[CURRENT_MODEL_KEY]
-        cachedStatsFile = {
-          version: 2,
-          model: CURRENT_MODEL_KEY,
-          stats: normalizeStats(isStats(current) ? current : undefined),
-        }
-        await saveStatsFile(cachedStatsFile)
-        return cachedStatsFile
-      }
-    }
-
-    if (isStats(parsed)) {
-      cachedStatsFile = {
-        version: 2,
-        model: CURRENT_MODEL_KEY,
-        stats: normalizeStats(parsed),
-      }
-      await saveStatsFile(cachedStatsFile)
-      return cachedStatsFile
-    }
+    models = parseLegacyStatsFile(JSON.parse(readFileSync(legacyPath, 'utf8')))
   }
-  catch {
-    // ignore and fall through to default
+  catch (error) {
+    log.warn('legacy stats unreadable, skipping import', { error })
   }
 
-  cachedStatsFile = {
-    version: 2,
-    model: CURRENT_MODEL_KEY,
-    stats: normalizeStats(undefined),
+  if (!Object.keys(models).length) {
+    setAsideLegacyStats(legacyPath, `${legacyPath}.unreadable`)
+    return
   }
-  return cachedStatsFile
-}
 
-async function saveStatsFile(statsFile: StatsFile) {
-  await fs.mkdir(path.dirname(STATS_PATH), { recursive: true })
-  await fs.writeFile(STATS_PATH, JSON.stringify(statsFile, null, 2))
+  for (const [modelKey, stats] of Object.entries(models))
+    db.run('INSERT OR IGNORE INTO legacy_stats (model_key, stats) VALUES (?, ?)', [modelKey, JSON.stringify(stats)])
+
+  setAsideLegacyStats(legacyPath, `${legacyPath}.imported`)
+  log.info('legacy stats imported', { models: Object.keys(models) })
 }
 
-function updateAverage(previous: number, count: number, value: number) {
-  return previous + (value - previous) / count
+function setAsideLegacyStats(from: string, to: string) {
+  try {
+    renameSync(from, to)
+  }
+  catch (error) {
+    log.warn('legacy stats rename failed', { error, to: path.basename(to) })
+  }
 }
 
-function clampAudioSeconds(value: number) {
-  if (!Number.isFinite(value))
-    return null
-  if (value <= 0)
-    return null
-  return value
+/**
+ * Reads every stats.json layout the bot has written: v3 `{ models }` keyed by
+ * `provider:model`, v2 `{ model, stats }`, v1 `{ models }` and the original
+ * bare stats object.
+ */
+export function parseLegacyStatsFile(parsed: unknown): Record<string, LegacyStats> {
+  if (parsed && typeof parsed === 'object' && 'version' in parsed) {
+    const withVersion = parsed as { version?: number, model?: unknown, stats?: unknown, models?: unknown }
+
+    if ((withVersion.version === 3 || withVersion.version === 1) && withVersion.models)
+      return normalizeModels(withVersion.models as Record<string, unknown>)
+
+    if (withVersion.version === 2 && isStats(withVersion.stats)) {
+      const model = typeof withVersion.model === 'string' && withVersion.model ? withVersion.model : LEGACY_MODEL_KEY
+      return { [model]: normalizeStats(withVersion.stats) }
+    }
+  }
+
+  if (isStats(parsed))
+    return { [LEGACY_MODEL_KEY]: normalizeStats(parsed) }
+
+  return {}
 }
 
-function clampFileSizeMb(value: number) {
-  if (!Number.isFinite(value))
-    return null
-  if (value <= 0)
-    return null
-  return value
+function normalizeStats(input: Partial<LegacyStats> | undefined) {
+  return { ...defaultLegacyStats, ...(input ?? {}) }
 }
 
-export async function recordJob(_modelKey: string, update: JobUpdate) {
-  const statsFile = await loadStatsFile()
-  const stats = statsFile.stats
+function normalizeModels(input: Record<string, unknown>) {
+  const models: Record<string, LegacyStats> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (isStats(value))
+      models[key] = normalizeStats(value)
+  }
+  return models
+}
 
-  stats.totalJobs += 1
-  stats.lastJobAt = new Date().toISOString()
+function isStats(input: unknown): input is Partial<LegacyStats> {
+  return !!input && typeof input === 'object' && 'totalJobs' in input
+}
 
-  if (update.success) {
-    stats.successJobs += 1
-    stats.lastError = null
-  }
-  else {
-    stats.failedJobs += 1
-    if (update.errorMessage)
-      stats.lastError = update.errorMessage
+function loadLegacyStats() {
+  const rows = getDb()
+    .query<{ model_key: string, stats: string }, []>('SELECT model_key, stats FROM legacy_stats')
+    .all()
+  const models: Record<string, LegacyStats> = {}
+  for (const row of rows) {
+    try {
+      models[row.model_key] = normalizeStats(JSON.parse(row.stats) as Partial<LegacyStats>)
+    }
+    catch {
+      // ignore rows that no longer parse
+    }
   }
+  return models
+}
 
-  if (update.totalMs !== undefined)
-    stats.avgTotalMs = updateAverage(stats.avgTotalMs, stats.totalJobs, update.totalMs)
+function positiveOrNull(value: number | undefined) {
+  if (value === undefined || !Number.isFinite(value) || value <= 0)
+    return null
+  return value
+}
 
-  if (update.downloadMs !== undefined) {
-    stats.avgDownloadMs = updateAverage(
-      stats.avgDownloadMs,
-      stats.totalJobs,
-      update.downloadMs,
-    )
+export function recordJob(modelKey: string, job: JobSource, update: JobUpdate) {
+  const chunks = update.chunks ?? []
+  const chunkAsrMs = chunks.length ? average(chunks.map(chunk => chunk.asrMs)) : null
+  const now = Date.now()
+
+  getDb().run('DELETE FROM job_log WHERE at < ?', [now - JOB_LOG_RETENTION_MS])
+  getDb().run(
+    `INSERT INTO job_log (
+      at, model_key, user_id, chat_id, media_type, success, cached,
+      total_ms, download_ms, file_size_mb, ffmpeg_ms, asr_ms, audio_sec, chunks, chunk_asr_ms,
+      error_category, error_message
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      now,
+      modelKey,
+      job.userId ?? null,
+      job.chatId,
+      job.mediaType,
+      update.success ? 1 : 0,
+      update.cached ? 1 : 0,
+      update.totalMs ?? null,
+      update.downloadMs ?? null,
+      positiveOrNull(update.fileSizeMb),
+      update.ffmpegMs ?? null,
+      update.asrMs ?? null,
+      positiveOrNull(update.audioSec),
+      chunks.length || null,
+      chunkAsrMs,
+      update.success ? null : (update.errorKind ?? 'internal'),
+      update.success ? null : (update.errorMessage ?? null),
+    ],
+  )
+}
 
-    if (update.fileSizeMb !== undefined) {
-      const fileSizeMb = clampFileSizeMb(update.fileSizeMb)
-      if (fileSizeMb !== null) {
-        const rateMs = update.downloadMs / fileSizeMb
-        stats.downloadRateJobs += 1
-        stats.avgDownloadMsPerMb = updateAverage(
-          stats.avgDownloadMsPerMb,
-          stats.downloadRateJobs,
-          rateMs,
-        )
-      }
+/** `/stats [24h|7d|…] [user]`; returns null for arguments it does not understand. */
+export function parseStatsQuery(input: string, userId: number | undefined): StatsQuery | null {
+  const query: StatsQuery = { windowMs: null, label: 'all time' }
+
+  for (const token of input.trim().toLowerCase().split(/\s+/).filter(Boolean)) {
+    const window = /^(\d+)([hd])$/.exec(token)
+    if (window) {
+      const hours = Number(window[1]) * (window[2] === 'd' ? 24 : 1)
+      if (hours <= 0 || hours > MAX_WINDOW_DAYS * 24)
+        return null
+      query.windowMs = hours * 3_600_000
+      query.label = `last ${token}`
+      continue
     }
-  }
 
-  if (update.ffmpegMs !== undefined)
-    stats.avgFfmpegMs = updateAverage(stats.avgFfmpegMs, stats.totalJobs, update.ffmpegMs)
-
-  if (update.asrMs !== undefined)
-    stats.avgAsrMs = updateAverage(stats.avgAsrMs, stats.totalJobs, update.asrMs)
-
-  if (update.asrMs !== undefined && update.audioSec !== undefined) {
-    const audioSec = clampAudioSeconds(update.audioSec)
-    if (audioSec !== null) {
-      const rateMs = update.asrMs / audioSec
-      stats.asrRateJobs += 1
-      stats.avgAsrMsPerAudioSec = updateAverage(
-        stats.avgAsrMsPerAudioSec,
-        stats.asrRateJobs,
-        rateMs,
-      )
+    if (token === 'user' && userId !== undefined) {
+      query.userId = userId
+      continue
     }
+
+    return null
   }
 
-  await saveStatsFile(statsFile)
+  return query
 }
 
-export async function getStatsMessage() {
-  const statsFile = await loadStatsFile()
-  const stats = statsFile.stats
+/**
+ * Rendered for Telegram's HTML parse mode (the per-day table is a <pre> block).
+ * Counts, sums and percentiles are computed by SQLite, so the job log is never
+ * loaded into memory.
+ */
+export function getStatsMessage(modelKey: string, query: StatsQuery) {
+  const filter: JobLogFilter = { conditions: [], params: [] }
+  if (query.windowMs !== null) {
+    filter.conditions.push('at >= ?')
+    filter.params.push(Date.now() - query.windowMs)
+  }
+  if (query.userId !== undefined) {
+    filter.conditions.push('user_id = ?')
+    filter.params.push(query.userId)
+  }
 
-  if (!stats.totalJobs)
-    return 'No transcriptions yet. Send a voice, audio, or video message.'
+  const totals = getDb()
+    .query<{ jobs: number, ok: number, cached: number, audioSec: number, chunkedJobs: number, chunks: number }, number[]>(
+      `SELECT COUNT(*) AS jobs, COALESCE(SUM(success), 0) AS ok, COALESCE(SUM(cached), 0) AS cached,
+        COALESCE(SUM(audio_sec), 0) AS audioSec, COUNT(CASE WHEN chunks > 1 THEN 1 END) AS chunkedJobs,
+        COALESCE(SUM(CASE WHEN chunks > 1 THEN chunks END), 0) AS chunks
+      FROM job_log ${where(filter)}`,
+    )
+    .get(...filter.params)!
+
+  // Old cumulative stats have no timestamps or users, so they only count towards the all-time view.
+  const legacy = query.windowMs === null && query.userId === undefined
+    ? Object.values(loadLegacyStats()).filter(stats => stats.totalJobs > 0)
+    : []
+
+  const scope = query.userId !== undefined ? `your jobs, ${query.label}` : query.label
+  if (!totals.jobs && !legacy.length)
+    return escapeHtml(`No transcriptions (${scope}). Send a voice, audio, or video message.`)
 
+  const failed = totals.jobs - totals.ok
+  // Cache answers always succeed, so the hit rate is taken over completed jobs.
   const lines = [
-    `${stats.totalJobs} total, ${stats.successJobs} ok, ${stats.failedJobs} failed`,
-    `Avg: total ${formatMs(stats.avgTotalMs)}, download ${formatMs(stats.avgDownloadMs)} (${formatMs(stats.avgDownloadMsPerMb)}/MB), ffmpeg ${formatMs(stats.avgFfmpegMs)}, asr ${formatMs(stats.avgAsrMs)}, asr/sec ${formatMs(stats.avgAsrMsPerAudioSec)}`,
-    `Last job: ${stats.lastJobAt ?? 'n/a'}`,
+    `Stats (${scope}), current model ${modelKey}`,
+    `Jobs: ${totals.jobs} (${totals.ok} ok, ${failed} failed, ${formatRate(totals.ok, totals.jobs)} success)`,
+    `Cache: ${totals.cached} of ${totals.ok} completed jobs (${formatRate(totals.cached, totals.ok)} hit rate)`,
+    `Audio: ${(totals.audioSec / 60).toFixed(1)} min`,
   ]
 
-  if (stats.lastError)
-    lines.push(`Last error: ${stats.lastError}`)
+  const latency = LATENCY_COLUMNS
+    .flatMap(column => percentiles(column, filter).map(({ p50, p95 }) => `${column.replace('_ms', '')} ${formatMs(p50)}/${formatMs(p95)}`))
+  if (latency.length)
+    lines.push(`Latency p50/p95: ${latency.join(', ')}`)
 
-  return lines.join('\n')
-}
+  if (totals.chunkedJobs)
+    lines.push(`Chunked: ${totals.chunkedJobs} long jobs, ${totals.chunks} chunks`)
 
-export async function getEtaForKey(_modelKey: string, audioSec?: number) {
-  const statsFile = await loadStatsFile()
-  const stats = statsFile.stats
+  const failures = countBy('error_category', filter)
+  if (failures.length)
+    lines.push(`Failures: ${failures.map(({ value, count }) => `${value} ${count}`).join(', ')}`)
 
-  if (!stats.totalJobs)
-    return null
+  const models = countBy('model_key', filter)
+  if (models.length > 1 || (models.length === 1 && models[0].value !== modelKey))
+    lines.push(`Models: ${models.map(({ value, count }) => `${value} (${count})`).join(', ')}`)
 
-  const safeAudioSec = audioSec ? clampAudioSeconds(audioSec) : null
-  if (safeAudioSec && stats.asrRateJobs > 0 && stats.avgAsrMsPerAudioSec > 0) {
-    const estimatedMs = stats.avgAsrMsPerAudioSec * safeAudioSec
-    return `Estimated time: ${formatMs(estimatedMs)}`
+  if (legacy.length) {
+    const total = sum(legacy.map(stats => stats.totalJobs))
+    const legacyOk = sum(legacy.map(stats => stats.successJobs))
+    lines.push(`Before the job log: ${total} jobs (${legacyOk} ok, ${total - legacyOk} failed)`)
   }
 
-  return `Recent average: ~${formatMs(stats.avgAsrMs)} (${stats.totalJobs} jobs)`
+  const message = escapeHtml(lines.join('\n'))
+  return totals.jobs ? `${message}\n\n<pre>${escapeHtml(formatDayTable(filter))}</pre>` : message
+}
+
+function formatDayTable(filter: JobLogFilter) {
+  const days = getDb()
+    .query<DayRow, number[]>(
+      `SELECT ${DAY_SQL} AS day, COUNT(*) AS jobs, SUM(success) AS ok, COALESCE(SUM(audio_sec), 0) AS audioSec
+      FROM job_log ${where(filter)} GROUP BY day ORDER BY day DESC LIMIT ${DAY_TABLE_MAX_ROWS}`,
+    )
+    .all(...filter.params)
+    .reverse()
+  const totals = new Map(percentiles('total_ms', filter, DAY_SQL).map(row => [row.group, row]))
+
+  const header = ['day', 'jobs', 'ok', 'audio', 'p50', 'p95']
+  const body = days.map((day) => {
+    const dayTotals = totals.get(day.day)
+    return [
+      day.day,
+      String(day.jobs),
+      formatRate(day.ok, day.jobs),
+      `${(day.audioSec / 60).toFixed(1)}m`,
+      dayTotals ? formatMs(dayTotals.p50) : '-',
+      dayTotals ? formatMs(dayTotals.p95) : '-',
+    ]
+  })
+
+  const table = [header, ...body]
+  const widths = header.map((_, column) => Math.max(...table.map(row => row[column].length)))
+  return table
+    .map(row => row.map((cell, column) => column ? cell.padStart(widths[column]) : cell.padEnd(widths[column])).join('  '))
+    .join('\n')
+}
+
+function where(filter: JobLogFilter, ...extra: string[]) {
+  const conditions = [...filter.conditions, ...extra]
+  return conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
 }
 
-export async function getTimingHintsForKey(_modelKey: string) {
-  const statsFile = await loadStatsFile()
-  const stats = statsFile.stats
+/**
+ * Nearest-rank p50 and p95 of a timing column, per value of `groupBy` (one
+ * group by default). Groups without any timing are left out.
+ */
+function percentiles(column: LatencyColumn, filter: JobLogFilter, groupBy = `''`) {
+  return getDb()
+    .query<Percentiles, number[]>(
+      `SELECT grp AS "group",
+        MIN(CASE WHEN rank >= 0.5 * n THEN value END) AS p50,
+        MIN(CASE WHEN rank >= 0.95 * n THEN value END) AS p95
+      FROM (
+        SELECT grp, value,
+          ROW_NUMBER() OVER (PARTITION BY grp ORDER BY value) AS rank,
+          COUNT(*) OVER (PARTITION BY grp) AS n
+        FROM (SELECT ${groupBy} AS grp, ${column} AS value FROM job_log ${where(filter, `${column} IS NOT NULL`)})
+      )
+      GROUP BY grp ORDER BY grp`,
+    )
+    .all(...filter.params)
+}
+
+/** Most frequent first; NULLs are skipped. */
+function countBy(column: 'error_category' | 'model_key', filter: JobLogFilter) {
+  return getDb()
+    .query<{ value: string, count: number }, number[]>(
+      `SELECT ${column} AS value, COUNT(*) AS count FROM job_log ${where(filter, `${column} IS NOT NULL`)}
+      GROUP BY ${column} ORDER BY count DESC`,
+    )
+    .all(...filter.params)
+}
+
+/**
+ * Averages over the most recent uncached successful jobs of this model, used
+ * to size timeouts. Falls back to the imported legacy averages until the log
+ * has any.
+ */
+export function getTimingHintsForKey(modelKey: string) {
+  const rows = recentJobs(modelKey)
+  const asrRates = rows.flatMap(row => row.asr_ms !== null && row.audio_sec ? [row.asr_ms / row.audio_sec] : [])
+  const downloadRates = rows.flatMap(row => row.download_ms !== null && row.file_size_mb ? [row.download_ms / row.file_size_mb] : [])
+  const legacy = loadLegacyStats()[modelKey] ?? defaultLegacyStats
 
   return {
-    avgAsrMsPerAudioSec: stats.avgAsrMsPerAudioSec,
-    asrRateJobs: stats.asrRateJobs,
-    avgDownloadMsPerMb: stats.avgDownloadMsPerMb,
-    downloadRateJobs: stats.downloadRateJobs,
+    avgAsrMsPerAudioSec: asrRates.length ? average(asrRates) : legacy.avgAsrMsPerAudioSec,
+    asrRateJobs: asrRates.length || legacy.asrRateJobs,
+    avgDownloadMsPerMb: downloadRates.length ? average(downloadRates) : legacy.avgDownloadMsPerMb,
+    downloadRateJobs: downloadRates.length || legacy.downloadRateJobs,
   }
 }
 
-export function getCurrentModelKey() {
-  return CURRENT_MODEL_KEY
+export function getEtaForKey(modelKey: string, audioSec?: number) {
+  const hints = getTimingHintsForKey(modelKey)
+  const safeAudioSec = positiveOrNull(audioSec)
+  if (safeAudioSec && hints.asrRateJobs > 0 && hints.avgAsrMsPerAudioSec > 0)
+    return `Estimated time: ${formatMs(hints.avgAsrMsPerAudioSec * safeAudioSec)}`
+
+  const asrTimes = recentJobs(modelKey).flatMap(row => row.asr_ms ?? [])
+  if (asrTimes.length)
+    return `Recent average: ~${formatMs(average(asrTimes))} (${asrTimes.length} jobs)`
+
+  const legacy = loadLegacyStats()[modelKey]
+  if (legacy?.totalJobs)
+    return `Recent average: ~${formatMs(legacy.avgAsrMs)} (${legacy.totalJobs} jobs)`
+
+  return null
+}
+
+function recentJobs(modelKey: string) {
+  return getDb()
+    .query<{ asr_ms: number | null, audio_sec: number | null, download_ms: number | null, file_size_mb: number | null }, [string, number]>(
+      `SELECT asr_ms, audio_sec, download_ms, file_size_mb FROM job_log
+      WHERE model_key = ? AND success = 1 AND cached = 0 ORDER BY id DESC LIMIT ?`,
+    )
+    .all(modelKey, HINT_SAMPLE_JOBS)
+}
+
+function average(values: number[]) {
+  return sum(values) / values.length
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function formatRate(part: number, total: number) {
+  return total ? `${Math.round((part / total) * 100)}%` : 'n/a'
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 }
 
 function formatMs(value: number) {
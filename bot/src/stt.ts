@@ -0,0 +1,209 @@
+import type { SttProviderName } from './config'
+import type { TranscriptSegment, TranscriptWord } from './transcript'
+import path from 'node:path'
+import { getConfig } from './config'
+import { fetchWithRetry, fetchWithTimeout } from './http'
+
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+export interface SttResult {
+  text: string
+  /** Language the provider detected, when it reports one. */
+  language?: string
+  /** Word-level timing and speakers, when the provider returns them. */
+  words?: TranscriptWord[]
+  /** Segment-level timing (OpenAI verbose_json), when the provider returns it. */
+  segments?: TranscriptSegment[]
+}
+
+export interface TranscribeOptions {
+  signal?: AbortSignal
+  /** ISO 639-1/639-3 code; omitted means auto-detect. */
+  language?: string
+  /** Ask for speaker labels; providers without diarization ignore it. */
+  diarize?: boolean
+}
+
+export interface SttProvider {
+  name: SttProviderName
+  model: string
+  /** Stats key, `provider:model`. */
+  key: string
+  transcribe: (audioPath: string, timeoutMs: number, options?: TranscribeOptions) => Promise<SttResult>
+  /** Cheap authenticated request; throws when the provider is unreachable or rejects the key. */
+  checkAuth: (timeoutMs: number) => Promise<void>
+}
+
+let cachedProvider: SttProvider | null = null
+
+/**
+ * Returns the provider selected by `STT_PROVIDER` (`elevenlabs` by default),
+ * unless an admin switched it with /setmodel. Throws on missing or unknown
+ * configuration so startup fails loudly.
+ */
+export function getSttProvider() {
+  if (cachedProvider)
+    return cachedProvider
+
+  cachedProvider = createSttProvider(getConfig().stt.provider)
+  return cachedProvider
+}
+
+/** Swaps the active provider for this process; jobs already running keep theirs. */
+export function setSttProvider(name: string, model?: string) {
+  cachedProvider = createSttProvider(name.trim().toLowerCase(), model?.trim() || undefined)
+  return cachedProvider
+}
+
+function createSttProvider(name: string, model?: string) {
+  if (name === 'elevenlabs')
+    return createElevenLabsProvider(model)
+  if (name === 'openai')
+    return createOpenAiProvider(model)
+  throw new Error(`Unknown STT_PROVIDER: ${name}`)
+}
+
+function createElevenLabsProvider(modelOverride?: string): SttProvider {
+  const { elevenLabsBaseUrl: baseUrl, elevenLabsApiKey: apiKey, elevenLabsModel } = getConfig().stt
+  if (!apiKey)
+    throw new Error('Missing ELEVENLABS_API_KEY')
+
+  const model = modelOverride ?? elevenLabsModel
+
+  return {
+    name: 'elevenlabs',
+    model,
+    key: `elevenlabs:${model}`,
+    async transcribe(audioPath, timeoutMs, options) {
+      const form = new FormData()
+      form.set('model_id', model)
+      if (options?.language)
+        form.set('language_code', options.language)
+      if (options?.diarize)
+        form.set('diarize', 'true')
+      form.set('file', Bun.file(audioPath), `audio${path.extname(audioPath)}`)
+
+      const res = await fetchWithRetry(
+        `${baseUrl}/speech-to-text`,
+        {
+          method: 'POST',
+          headers: {
+            'xi-api-key': apiKey,
+          },
+          body: form,
+          signal: options?.signal,
+        },
+        timeoutMs,
+        'elevenlabs',
+      )
+
+      return parseTextResponse(await res.json())
+    },
+    checkAuth: timeoutMs => checkReachable(`${baseUrl}/models`, { 'xi-api-key': apiKey }, timeoutMs),
+  }
+}
+
+// Any server implementing OpenAI's /v1/audio/transcriptions works here,
+// including local whisper.cpp and faster-whisper servers.
+function createOpenAiProvider(modelOverride?: string): SttProvider {
+  const { openAiBaseUrl: baseUrl, openAiApiKey: apiKey, openAiModel } = getConfig().stt
+  const model = modelOverride ?? openAiModel
+
+  if (!apiKey && baseUrl === OPENAI_DEFAULT_BASE_URL)
+    throw new Error('Missing OPENAI_STT_API_KEY')
+
+  return {
+    name: 'openai',
+    model,
+    key: `openai:${model}`,
+    async transcribe(audioPath, timeoutMs, options) {
+      const form = new FormData()
+      form.set('model', model)
+      form.set('response_format', 'verbose_json')
+      if (options?.language)
+        form.set('language', options.language)
+      form.set('file', Bun.file(audioPath), `audio${path.extname(audioPath)}`)
+
+      const headers: Record<string, string> = {}
+      if (apiKey)
+        headers.Authorization = `Bearer ${apiKey}`
+
+      const res = await fetchWithRetry(
+        `${baseUrl}/audio/transcriptions`,
+        {
+          method: 'POST',
+          headers,
+          body: form,
+          signal: options?.signal,
+        },
+        timeoutMs,
+        'openai',
+      )
+
+      return parseTextResponse(await res.json())
+    },
+    checkAuth: timeoutMs => checkReachable(
+      `${baseUrl}/models`,
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      timeoutMs,
+    ),
+  }
+}
+
+// Only auth failures and server errors count: local OpenAI-compatible servers
+// often do not implement /models and answer 404.
+async function checkReachable(url: string, headers: Record<string, string>, timeoutMs: number) {
+  const res = await fetchWithTimeout(url, timeoutMs, { headers })
+  await res.body?.cancel()
+  if (res.status === 401 || res.status === 403)
+    throw new Error(`unauthorized (${res.status})`)
+  if (res.status >= 500)
+    throw new Error(`unavailable (${res.status})`)
+}
+
+// ElevenLabs reports `language_code`, OpenAI's verbose_json `language`.
+function parseTextResponse(data: any): SttResult {
+  const text = typeof data?.text === 'string' ? data.text : ''
+  const language = typeof data?.language_code === 'string'
+    ? data.language_code
+    : typeof data?.language === 'string' ? data.language : undefined
+  return {
+    text,
+    language: language || undefined,
+    words: parseWords(data?.words),
+    segments: parseSegments(data?.segments),
+  }
+}
+
+function parseSegments(input: unknown): TranscriptSegment[] | undefined {
+  if (!Array.isArray(input))
+    return undefined
+
+  return input
+    .filter(item => typeof item?.text === 'string' && typeof item?.start === 'number')
+    .map(item => ({
+      start: item.start,
+      end: typeof item.end === 'number' ? item.end : item.start,
+      text: item.text.trim(),
+    }))
+}
+
+function parseWords(input: unknown): TranscriptWord[] | undefined {
+  if (!Array.isArray(input))
+    return undefined
+
+  const words: TranscriptWord[] = []
+  for (const item of input) {
+    if (typeof item?.text !== 'string' || typeof item?.start !== 'number')
+      continue
+
+    words.push({
+      text: item.text,
+      start: item.start,
+      end: typeof item.end === 'number' ? item.end : item.start,
+      type: item.type === 'spacing' || item.type === 'audio_event' ? item.type : 'word',
+      speaker: typeof item.speaker_id === 'string' ? item.speaker_id : undefined,
+    })
+  }
+  return words
+}
@@ -1,21 +1,35 @@
-import type { Context } from 'grammy'
+import type { Api, Context } from 'grammy'
+import type { Message } from 'grammy/types'
+import type { ConvertedAudio, PreprocessOptions } from './audio'
+import type { CacheVariant } from './cache'
+import type { TranscriptRef } from './postprocess'
+import type { AudioJob, MediaType, QueuedJob } from './queue'
+import type { ChatSettings } from './settings'
+import type { Transcript, TranscriptSegment, TranscriptWord } from './transcript'
 import { Buffer } from 'node:buffer'
 import { promises as fs } from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
-import process from 'node:process'
-import { oggToWav16kMono } from './audio'
-import { CURRENT_MODEL_KEY, getEtaForKey, getTimingHintsForKey, recordJob } from './stats'
-
-const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN
-const ELEVENLABS_API_KEY = (process.env.ELEVENLABS_API_KEY ?? '').trim()
-const ELEVENLABS_MODEL_ID = 'scribe_v2'
-const MAX_FILE_MB = 20
+import { InputFile } from 'grammy'
+import { checkMeasuredAudio, releaseUsage, updateUsageAudioSec } from './access'
+import { prepareAudio, prepareAudioStream, preprocessOptions } from './audio'
+import { cacheTranscript, contentCacheKey, fileCacheKey, getCachedTranscript } from './cache'
+import { getConfig } from './config'
+import { isJobError, JobError, toJobError } from './errors'
+import { renderTranscript } from './formats'
+import { log } from './logger'
+import { jobFailuresTotal, jobsTotal, stageSeconds } from './metrics'
+import { postprocessKeyboard } from './postprocess'
+import { createProgressReporter } from './progress'
+import { isShutdownAbort } from './queue'
+import { getChatSettings } from './settings'
+import { packForTelegram, TELEGRAM_MESSAGE_MAX_CHARS } from './split'
+import { getEtaForKey, getTimingHintsForKey, recordJob } from './stats'
+import { getSttProvider } from './stt'
+import { formatSpeakerTurn, mergeChunkTimeline, stitchTranscripts, toSpeakerTurns } from './transcript'
+
 const ASR_TIMEOUT_BASE_MS = 120000
 const TELEGRAM_DOWNLOAD_TIMEOUT_BASE_MS = 120000
-const ELEVENLABS_RETRIES = 2
-const ASR_TIMEOUT_MAX_MS = 1800000
-const DOWNLOAD_TIMEOUT_MAX_MS = 600000
 
 const ASR_FALLBACK_MS_PER_AUDIO_SEC = 1200
 const ASR_TIMEOUT_MULTIPLIER = 1.8
@@ -23,148 +37,222 @@ const ASR_TIMEOUT_BUFFER_MS = 15000
 const DOWNLOAD_FALLBACK_MS_PER_MB = 1500
 const DOWNLOAD_TIMEOUT_MULTIPLIER = 1.8
 const DOWNLOAD_TIMEOUT_BUFFER_MS = 5000
-const TELEGRAM_MESSAGE_MAX_CHARS = 3900
-
-export async function handleAudio(ctx: Context) {
+const TRANSCRIBE_PROGRESS_INTERVAL_MS = 5000
+const TEXT_REPLY_MAX_MESSAGES = 5
+const TEMP_DIR_PREFIX = 'tg-asr-'
+
+/**
+ * Builds a serializable job descriptor from an incoming media message, or
+ * returns null when the message carries no audio/video. `source` is the
+ * message holding the media when it is not the update itself, e.g. the voice
+ * message a `/transcribe` command replies to; results then reply to it.
+ */
+export function toAudioJob(ctx: Context, source: Message | undefined = ctx.message): AudioJob | null {
   const message = ctx.message
-  if (!message)
-    return
+  if (!message || !source)
+    return null
+
+  const base = {
+    chatId: message.chat.id,
+    messageId: source.message_id,
+    threadId: message.is_topic_message ? message.message_thread_id : undefined,
+    userId: ctx.from?.id,
+    inGroup: message.chat.type === 'group' || message.chat.type === 'supergroup',
+  }
 
-  if (!ELEVENLABS_API_KEY)
-    throw new Error('Missing ELEVENLABS_API_KEY')
-
-  const voice = message.voice
-  const audio = message.audio
-  const document = message.document
-  const video = message.video
-  const videoNote = message.video_note
-
-  const from = ctx.from
-  console.warn('interaction', {
-    userId: from?.id,
-    username: from?.username ?? null,
-    name: formatName(from?.first_name, from?.last_name),
-    type: voice
-      ? 'voice'
-      : audio
-        ? 'audio'
-        : video
-          ? 'video'
-          : videoNote
-            ? 'video_note'
-            : document
-              ? 'document'
-              : 'unknown',
+  const media = (
+    mediaType: MediaType,
+    file: { file_id: string, file_unique_id: string, file_size?: number, duration?: number },
+  ): AudioJob => ({
+    ...base,
+    mediaType,
+    fileId: file.file_id,
+    fileUniqueId: file.file_unique_id,
+    duration: file.duration,
+    fileSize: file.file_size,
   })
 
-  if (!voice && !audio && !document && !video && !videoNote)
-    return
-
-  if (document && !isAudioOrVideoDocument(document.mime_type, document.file_name)) {
-    await ctx.reply('Please send a voice message, audio file, or video.')
-    return
+  if (source.voice)
+    return media('voice', source.voice)
+  if (source.audio)
+    return media('audio', source.audio)
+  if (source.video)
+    return media('video', source.video)
+  if (source.video_note)
+    return media('video_note', source.video_note)
+  if (source.document) {
+    return {
+      ...media('document', source.document),
+      fileName: source.document.file_name,
+      mimeType: source.document.mime_type,
+    }
   }
 
-  const duration
-    = voice?.duration ?? audio?.duration ?? video?.duration ?? videoNote?.duration
-
-  const fileSize
-    = voice?.file_size
-      ?? audio?.file_size
-      ?? video?.file_size
-      ?? videoNote?.file_size
-      ?? document?.file_size
-      ?? 0
-  const sizeMb = fileSize / (1024 * 1024)
-  if (sizeMb > MAX_FILE_MB) {
-    await ctx.reply(`Too big (${sizeMb.toFixed(1)}MB). Max is ${MAX_FILE_MB}MB.`)
-    return
-  }
+  return null
+}
 
-  const fileId
-    = voice?.file_id
-      ?? audio?.file_id
-      ?? video?.file_id
-      ?? videoNote?.file_id
-      ?? document?.file_id
-  if (!fileId)
-    return
+/** Documents only count as media when they look like audio or video. */
+export function isSupportedMedia(job: AudioJob) {
+  return job.mediaType !== 'document' || isAudioOrVideoDocument(job.mimeType, job.fileName)
+}
+
+/** Returns a user-facing refusal when the job cannot be processed, else null. */
+export function rejectAudioJob(job: AudioJob) {
+  if (!isSupportedMedia(job))
+    return 'Please send a voice message, audio file, or video.'
+
+  const sizeMb = (job.fileSize ?? 0) / (1024 * 1024)
+  const { maxFileMb } = getConfig().telegram
+  if (sizeMb > maxFileMb)
+    return `Too big (${sizeMb.toFixed(1)}MB). Max is ${maxFileMb}MB.`
+
+  return null
+}
+
+export async function handleAudio(api: Api, job: QueuedJob, signal: AbortSignal) {
+  const provider = getSttProvider()
+
+  let duration = job.duration
+  const sizeMb = (job.fileSize ?? 0) / (1024 * 1024)
+
+  const progress = createProgressReporter(api, job)
+  const settings = getChatSettings(job.chatId)
+  const language = settings.language ?? undefined
 
   let etaMessage: string | null = null
-  let timingHints: Awaited<ReturnType<typeof getTimingHintsForKey>> = {
+  let timingHints: ReturnType<typeof getTimingHintsForKey> = {
     avgAsrMsPerAudioSec: 0,
     asrRateJobs: 0,
     avgDownloadMsPerMb: 0,
     downloadRateJobs: 0,
   }
   try {
-    timingHints = await getTimingHintsForKey(CURRENT_MODEL_KEY)
-    etaMessage = await getEtaForKey(CURRENT_MODEL_KEY, duration)
+    timingHints = getTimingHintsForKey(provider.key)
+    etaMessage = getEtaForKey(provider.key, duration)
   }
   catch (error) {
-    console.warn('eta lookup failed', error)
+    log.warn('eta lookup failed', { error })
   }
 
-  const intro = etaMessage
-    ? `Got it! ${etaMessage} Please keep waiting!`
-    : 'Got it! Transcribing now...'
-
-  await ctx.reply(intro)
-
-  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'tg-asr-'))
   const jobStartedAt = Date.now()
+  const cacheVariant: CacheVariant = { modelKey: provider.key, language, diarize: settings.diarize }
+  const cacheKeys = job.fileUniqueId ? [fileCacheKey(job.fileUniqueId)] : []
+  if (cacheKeys.length && await answerFromCache(api, job, cacheKeys, cacheVariant, settings, progress, jobStartedAt))
+    return
+
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), TEMP_DIR_PREFIX))
   let downloadMs: number | undefined
   let ffmpegMs: number | undefined
   let asrMs: number | undefined
+  const chunks: Array<{ asrMs: number, audioSec: number }> = []
+  let ticker: ReturnType<typeof setInterval> | undefined
 
   try {
-    const file = await ctx.api.getFile(fileId)
-    if (!file.file_path || !TELEGRAM_BOT_TOKEN) {
-      throw new Error('Unable to resolve Telegram file URL')
-    }
+    await progress.update({ stage: 'downloading', receivedBytes: 0, totalBytes: job.fileSize })
 
-    const fileExtension = path.extname(file.file_path) || '.bin'
-    const inputPath = path.join(tmp, `input${fileExtension}`)
-    const url = `https://api.telegram.org/file/bot${TELEGRAM_BOT_TOKEN}/${file.file_path}`
-
-    console.warn('audio received', {
-      type: voice
-        ? 'voice'
-        : audio
-          ? 'audio'
-          : video
-            ? 'video'
-            : videoNote
-              ? 'video_note'
-              : 'document',
+    const file = await api.getFile(job.fileId).catch((error) => {
+      // The public Bot API refuses files above 20MB even when Telegram reported no size.
+      if (/file is too big/i.test(String(error)))
+        throw new JobError('too_large', `getFile: ${error}`, { cause: error, userMessage: `Too big. Max is ${getConfig().telegram.maxFileMb}MB.` })
+      throw new JobError('download', `getFile failed: ${error}`, { cause: error })
+    })
+    if (!file.file_path)
+      throw new JobError('download', 'Unable to resolve Telegram file URL')
+
+    log.info('audio received', {
+      type: job.mediaType,
       duration,
       sizeMb: Number(sizeMb.toFixed(2)),
     })
 
-    const downloadTimeoutMs = estimateDownloadTimeoutMs(sizeMb, timingHints)
-    const downloadStart = Date.now()
-    const res = await fetchWithTimeout(url, downloadTimeoutMs)
-    if (!res.ok)
-      throw new Error(`download failed: ${res.status}`)
-    const buf = Buffer.from(await res.arrayBuffer())
-    await fs.writeFile(inputPath, buf)
-    downloadMs = Date.now() - downloadStart
+    const preprocess = preprocessOptions(language)
+    const prepared = getConfig().telegram.local && path.isAbsolute(file.file_path)
+      ? await convertLocalFile(file.file_path, tmp, preprocess, signal, progress)
+      : await downloadAndConvert(job, {
+        url: telegramFileUrl(file.file_path),
+        inputPath: path.join(tmp, `input${path.extname(file.file_path) || '.bin'}`),
+        outDir: tmp,
+        timeoutMs: estimateDownloadTimeoutMs(sizeMb, timingHints),
+      }, preprocess, signal, progress)
+    const segments = prepared.segments
+    downloadMs = prepared.downloadMs
+    ffmpegMs = prepared.ffmpegMs
+    stageSeconds.observe({ stage: 'download' }, downloadMs / 1000)
+    stageSeconds.observe({ stage: 'ffmpeg' }, ffmpegMs / 1000)
+
+    // Forwarded copies can arrive with a new file_unique_id but the same bytes.
+    cacheKeys.push(contentCacheKey(prepared.sha256))
+    if (await answerFromCache(api, job, cacheKeys, cacheVariant, settings, progress, jobStartedAt))
+      return
 
-    const ffmpegStart = Date.now()
-    const wavPath = await oggToWav16kMono(inputPath, tmp)
-    ffmpegMs = Date.now() - ffmpegStart
+    // Probed duration beats Telegram's, which documents often lack. The limits
+    // only saw the declared duration, so check them again before paying for STT.
+    const refusal = checkMeasuredAudio(job, prepared.durationSec)
+    if (refusal) {
+      releaseUsage(job.id)
+      throw new JobError('over_limit', `audio limit reached after probing ${prepared.durationSec}s`, { userMessage: refusal })
+    }
+    updateUsageAudioSec(job.id, prepared.durationSec)
+    if (duration === undefined || prepared.probe?.durationSec !== undefined) {
+      duration = prepared.durationSec
+      etaMessage = getEtaForKey(provider.key, duration) ?? etaMessage
+    }
 
-    const asrTimeoutMs = estimateAsrTimeoutMs(duration, timingHints)
+    const parts: string[] = []
+    const chunkWords: Array<{ startSec: number, durationSec: number, items: TranscriptWord[] }> = []
+    const chunkSegments: Array<{ startSec: number, durationSec: number, items: TranscriptSegment[] }> = []
+    let detectedLanguage: string | undefined
     const asrStart = Date.now()
-    const out = await transcribeElevenLabs(wavPath, asrTimeoutMs)
+    const reportTranscribing = () => progress.update({
+      stage: 'transcribing',
+      elapsedMs: Date.now() - asrStart,
+      eta: etaMessage,
+      part: parts.length + 1,
+      parts: segments.length,
+    })
+    ticker = setInterval(reportTranscribing, TRANSCRIBE_PROGRESS_INTERVAL_MS)
+
+    for (const segment of segments) {
+      await reportTranscribing()
+      const asrTimeoutMs = estimateAsrTimeoutMs(segment.durationSec, timingHints)
+      const chunkStart = Date.now()
+      const out = await provider.transcribe(segment.path, asrTimeoutMs, {
+        signal,
+        language,
+        diarize: settings.diarize,
+      })
+      chunks.push({ asrMs: Date.now() - chunkStart, audioSec: segment.durationSec })
+      parts.push(out.text)
+      chunkWords.push({ ...segment, items: offsetTimes(out.words ?? [], segment.startSec) })
+      chunkSegments.push({ ...segment, items: offsetTimes(out.segments ?? [], segment.startSec) })
+      detectedLanguage ??= out.language
+      await fs.rm(segment.path, { force: true }).catch(() => {})
+    }
+    clearInterval(ticker)
     asrMs = Date.now() - asrStart
-
-    const text = out.text?.trim()
+    stageSeconds.observe({ stage: 'asr' }, asrMs / 1000)
+
+    if (segments.length > 1)
+      log.info('chunks transcribed', { count: segments.length, asrMs })
+
+    const words = mergeChunkTimeline(chunkWords)
+    const turns = settings.diarize ? toSpeakerTurns(words) : []
+    const transcript: Transcript = {
+      text: turns.length ? turns.map(formatSpeakerTurn).join('\n\n') : stitchTranscripts(parts),
+      language: detectedLanguage,
+      durationSec: duration,
+      words,
+      segments: mergeChunkTimeline(chunkSegments),
+      turns,
+    }
 
     const totalMs = Date.now() - jobStartedAt
+    stageSeconds.observe({ stage: 'total' }, totalMs / 1000)
+
+    storeInCache(cacheKeys, cacheVariant, transcript)
 
-    if (!text) {
-      await recordJobSafe({
+    if (!transcript.text) {
+      recordJobSafe(provider.key, job, {
         success: true,
         totalMs,
         downloadMs,
@@ -172,13 +260,17 @@ export async function handleAudio(ctx: Context) {
         ffmpegMs,
         asrMs,
         audioSec: duration,
+        chunks,
       })
-      await ctx.reply('No speech detected.')
+      jobsTotal.inc({ outcome: 'no_speech', media_type: job.mediaType })
+      await progress.update({ stage: 'no_speech' })
       return
     }
 
-    await replyTextInChunks(ctx, text)
-    await recordJobSafe({
+    await deliverTranscript(api, job, transcript, settings, { key: cacheKeys[cacheKeys.length - 1], variant: cacheVariant })
+    jobsTotal.inc({ outcome: 'done', media_type: job.mediaType })
+    await progress.update({ stage: 'done', elapsedMs: totalMs })
+    recordJobSafe(provider.key, job, {
       success: true,
       totalMs,
       downloadMs,
@@ -186,14 +278,34 @@ export async function handleAudio(ctx: Context) {
       ffmpegMs,
       asrMs,
       audioSec: duration,
+      chunks,
     })
   }
   catch (error) {
+    clearInterval(ticker)
+
+    if (isShutdownAbort(signal)) {
+      log.info('job interrupted by shutdown')
+      jobsTotal.inc({ outcome: 'interrupted', media_type: job.mediaType })
+      await progress.update({ stage: 'interrupted' })
+      throw error
+    }
+
+    if (signal.aborted) {
+      log.info('job cancelled')
+      jobsTotal.inc({ outcome: 'cancelled', media_type: job.mediaType })
+      await progress.update({ stage: 'cancelled' })
+      throw error
+    }
+
+    const failure = toJobError(error)
     const totalMs = Date.now() - jobStartedAt
-    const errorMessage = error instanceof Error ? error.message : String(error)
+    stageSeconds.observe({ stage: 'total' }, totalMs / 1000)
+    jobsTotal.inc({ outcome: 'failed', media_type: job.mediaType })
+    jobFailuresTotal.inc({ kind: failure.kind })
 
-    console.error('transcription failed', error)
-    await recordJobSafe({
+    log.error('transcription failed', { kind: failure.kind, error })
+    recordJobSafe(provider.key, job, {
       success: false,
       totalMs,
       downloadMs,
@@ -201,76 +313,35 @@ export async function handleAudio(ctx: Context) {
       ffmpegMs,
       asrMs,
       audioSec: duration,
-      errorMessage,
+      chunks,
+      errorKind: failure.kind,
+      errorMessage: failure.message,
     })
-    await ctx.reply('Transcription failed. Please try again later.')
+    await progress.update({ stage: 'failed', reason: failure.userMessage })
+    throw failure
   }
   finally {
     await fs.rm(tmp, { recursive: true, force: true }).catch(() => {})
   }
 }
 
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number,
-  retries: number,
-) {
-  let lastError: unknown
-
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      const res = await fetchWithTimeout(url, timeoutMs, options)
-      if (!res.ok) {
-        const t = await res.text().catch(() => '')
-        throw new Error(`STT failed: ${res.status} ${t}`)
-      }
-      return res
-    }
-    catch (error) {
-      lastError = error
-      if (attempt < retries) {
-        await delay(500 * (attempt + 1))
-      }
-    }
-  }
-
-  throw lastError
-}
-
-async function fetchWithTimeout(
-  url: string,
-  timeoutMs: number,
-  options?: RequestInit,
-) {
-  const controller = new AbortController()
-  const timer = setTimeout(() => controller.abort(), timeoutMs)
-  try {
-    return await fetch(url, { ...options, signal: controller.signal })
-  }
-  finally {
-    clearTimeout(timer)
-  }
+/** Removes job scratch directories that outlived their job, e.g. when shutdown could not wait for it. */
+export async function removeTempDirs() {
+  const names = await fs.readdir(os.tmpdir()).catch(() => [] as string[])
+  await Promise.all(names
+    .filter(name => name.startsWith(TEMP_DIR_PREFIX))
+    .map(name => fs.rm(path.join(os.tmpdir(), name), { recursive: true, force: true }).catch(() => {})))
 }
 
-async function recordJobSafe(update: Parameters<typeof recordJob>[1]) {
+function recordJobSafe(modelKey: string, job: QueuedJob, update: Parameters<typeof recordJob>[2]) {
   try {
-    await recordJob(CURRENT_MODEL_KEY, update)
+    recordJob(modelKey, job, update)
   }
   catch (error) {
-    console.warn('stats update failed', error)
+    log.warn('stats update failed', { error })
   }
 }
 
-function delay(ms: number) {
-  return new Promise(resolve => setTimeout(resolve, ms))
-}
-
-function formatName(firstName?: string, lastName?: string) {
-  const parts = [firstName, lastName].filter(Boolean)
-  return parts.length ? parts.join(' ') : null
-}
-
 function isAudioOrVideoDocument(mimeType?: string, fileName?: string) {
   if (mimeType) {
     if (
@@ -297,32 +368,8 @@ function isAudioOrVideoDocument(mimeType?: string, fileName?: string) {
   return false
 }
 
-async function transcribeElevenLabs(wavPath: string, timeoutMs: number): Promise<{ text: string }> {
-  const form = new FormData()
-  form.set('model_id', ELEVENLABS_MODEL_ID)
-
-  const file = Bun.file(wavPath)
-  form.set('file', file, 'audio.wav')
-
-  const res = await fetchWithRetry(
-    'https://api.elevenlabs.io/v1/speech-to-text',
-    {
-      method: 'POST',
-      headers: {
-        'xi-api-key': ELEVENLABS_API_KEY,
-      },
-      body: form,
-    },
-    timeoutMs,
-    ELEVENLABS_RETRIES,
-  )
-
-  const data = (await res.json()) as any
-  const text = typeof data?.text === 'string' ? data.text : ''
-  return { text }
-}
-
-function estimateAsrTimeoutMs(
+/** STT request timeout for `audioSec` of audio, from the provider's learned speed when known. */
+export function estimateAsrTimeoutMs(
   audioSec: number | undefined,
   hints: Awaited<ReturnType<typeof getTimingHintsForKey>>,
 ) {
@@ -341,11 +388,12 @@ function estimateAsrTimeoutMs(
   return clampTimeout(
     Math.max(ASR_TIMEOUT_BASE_MS, estimatedMs),
     ASR_TIMEOUT_BASE_MS,
-    ASR_TIMEOUT_MAX_MS,
+    getConfig().stt.timeoutMaxSec * 1000,
   )
 }
 
-function estimateDownloadTimeoutMs(
+/** Telegram download timeout for a file of `fileSizeMb`, from past download speed when known. */
+export function estimateDownloadTimeoutMs(
   fileSizeMb: number,
   hints: Awaited<ReturnType<typeof getTimingHintsForKey>>,
 ) {
@@ -364,7 +412,7 @@ function estimateDownloadTimeoutMs(
   return clampTimeout(
     Math.max(TELEGRAM_DOWNLOAD_TIMEOUT_BASE_MS, estimatedMs),
     TELEGRAM_DOWNLOAD_TIMEOUT_BASE_MS,
-    DOWNLOAD_TIMEOUT_MAX_MS,
+    getConfig().telegram.downloadTimeoutMaxSec * 1000,
   )
 }
 
@@ -376,41 +424,265 @@ function clampTimeout(value: number, min: number, max: number) {
   return Math.min(Math.max(value, safeMin), safeMax)
 }
 
-async function replyTextInChunks(ctx: Context, text: string) {
-  const chunks = splitForTelegram(text, TELEGRAM_MESSAGE_MAX_CHARS)
-  for (const chunk of chunks)
-    await ctx.reply(chunk)
+export function sendToChat(
+  api: Api,
+  job: AudioJob,
+  text: string,
+  other?: Parameters<Api['sendMessage']>[2],
+) {
+  return api.sendMessage(job.chatId, text, { message_thread_id: job.threadId, ...other })
+}
+
+interface PreparedAudio extends ConvertedAudio {
+  sha256: string
+  downloadMs: number
+  ffmpegMs: number
+}
+
+async function downloadAndConvert(
+  job: QueuedJob,
+  target: { url: string, inputPath: string, outDir: string, timeoutMs: number },
+  preprocess: PreprocessOptions,
+  signal: AbortSignal,
+  progress: ReturnType<typeof createProgressReporter>,
+): Promise<PreparedAudio> {
+  const downloadStart = Date.now()
+  // The timeout covers the body too, not just the response headers.
+  const res = await fetch(target.url, { signal: AbortSignal.any([signal, AbortSignal.timeout(target.timeoutMs)]) })
+    .catch((error) => {
+      throw signal.aborted ? error : toDownloadError(error)
+    })
+  if (!res.ok || !res.body)
+    throw new JobError('download', `download failed: ${res.status}`, { status: res.status })
+  const totalBytes = Number(res.headers.get('content-length')) || job.fileSize
+  if (totalBytes && totalBytes > maxFileBytes())
+    throw fileTooLarge(totalBytes)
+
+  // ffmpeg converts while the file downloads; the bytes are also kept on
+  // disk because formats with their index at the end (some MP4/MOV) cannot
+  // be read from a pipe.
+  const download: DownloadResult = { receivedBytes: 0, sha256: '', finishedAt: 0 }
+  const ffmpegStart = Date.now()
+  let converted: ConvertedAudio
+  try {
+    converted = await prepareAudioStream(
+      teeDownload(res.body, target.inputPath, download, (receivedBytes, done) => {
+        void progress.update(done ? { stage: 'converting' } : { stage: 'downloading', receivedBytes, totalBytes })
+      }),
+      target.inputPath,
+      target.outDir,
+      preprocess,
+      signal,
+    )
+  }
+  catch (error) {
+    if (signal.aborted)
+      throw error
+    if (isJobError(error, 'too_large') || !download.finishedAt)
+      throw toDownloadError(error)
+    log.warn('piped conversion failed, retrying from file', { error })
+    await progress.update({ stage: 'converting' })
+    converted = await prepareAudio(target.inputPath, target.outDir, preprocess, signal)
+  }
+
+  return {
+    ...converted,
+    sha256: download.sha256,
+    downloadMs: download.finishedAt - downloadStart,
+    ffmpegMs: Date.now() - ffmpegStart,
+  }
+}
+
+// A `--local` Bot API server hands out absolute paths on a volume shared with
+// this container, so there is nothing to download.
+async function convertLocalFile(
+  filePath: string,
+  outDir: string,
+  preprocess: PreprocessOptions,
+  signal: AbortSignal,
+  progress: ReturnType<typeof createProgressReporter>,
+): Promise<PreparedAudio> {
+  const readStart = Date.now()
+  const stat = await fs.stat(filePath).catch((error) => {
+    throw new JobError('download', `Telegram file not readable at ${filePath}; mount the telegram-bot-api data directory`, { cause: error })
+  })
+  if (stat.size > maxFileBytes())
+    throw fileTooLarge(stat.size)
+
+  const hasher = new Bun.CryptoHasher('sha256')
+  for await (const chunk of Bun.file(filePath).stream())
+    hasher.update(chunk)
+  const downloadMs = Date.now() - readStart
+
+  await progress.update({ stage: 'converting' })
+  const ffmpegStart = Date.now()
+  const converted = await prepareAudio(filePath, outDir, preprocess, signal)
+  return { ...converted, sha256: hasher.digest('hex'), downloadMs, ffmpegMs: Date.now() - ffmpegStart }
+}
+
+function telegramFileUrl(filePath: string) {
+  const { fileRoot, token } = getConfig().telegram
+  return `${fileRoot}/bot${token}/${filePath}`
+}
+
+function maxFileBytes() {
+  return getConfig().telegram.maxFileMb * 1024 * 1024
+}
+
+interface DownloadResult {
+  receivedBytes: number
+  sha256: string
+  /** 0 until the whole body was read. */
+  finishedAt: number
+}
+
+function fileTooLarge(bytes: number) {
+  const message = `Too big (${(bytes / (1024 * 1024)).toFixed(1)}MB). Max is ${getConfig().telegram.maxFileMb}MB.`
+  return new JobError('too_large', message, { userMessage: message })
 }
 
-function splitForTelegram(text: string, maxChars: number) {
-  const safeMax = Number.isFinite(maxChars) && maxChars > 0 ? Math.floor(maxChars) : 3900
-  const input = text.replace(/\r\n/g, '\n')
-  const chunks: string[] = []
-  let rest = input
-
-  while (rest.length > safeMax) {
-    const slice = rest.slice(0, safeMax)
-    const cut = findSplitPoint(slice, safeMax)
-    const chunk = rest.slice(0, cut).trimEnd()
-    if (chunk)
-      chunks.push(chunk)
-    rest = rest.slice(cut).trimStart()
+// Failures while bytes are still arriving are the download's fault; ffmpeg
+// errors and the size cap are already classified and pass through.
+function toDownloadError(error: unknown) {
+  if (error instanceof JobError)
+    return error
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return new JobError('timeout', 'download timed out', {
+      cause: error,
+      userMessage: 'Downloading the file from Telegram took too long. Please try again.',
+    })
+  }
+  return new JobError('download', `download failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error })
+}
+
+/**
+ * Yields the download as it arrives while writing it to `filePath`, hashing
+ * it and enforcing the size cap on the bytes actually received, since
+ * Telegram's declared size can be missing. Totals land in `result` once the
+ * body is exhausted.
+ */
+async function* teeDownload(
+  body: ReadableStream<Uint8Array>,
+  filePath: string,
+  result: DownloadResult,
+  onProgress: (receivedBytes: number, done: boolean) => void,
+) {
+  const writer = Bun.file(filePath).writer()
+  const hasher = new Bun.CryptoHasher('sha256')
+  try {
+    for await (const chunk of body) {
+      result.receivedBytes += chunk.byteLength
+      if (result.receivedBytes > maxFileBytes())
+        throw fileTooLarge(result.receivedBytes)
+
+      writer.write(chunk)
+      hasher.update(chunk)
+      onProgress(result.receivedBytes, false)
+      yield chunk
+    }
+    result.sha256 = hasher.digest('hex')
+    result.finishedAt = Date.now()
+    onProgress(result.receivedBytes, true)
   }
+  finally {
+    await writer.end()
+  }
+}
 
-  if (rest)
-    chunks.push(rest)
+async function deliverTranscript(
+  api: Api,
+  job: AudioJob,
+  transcript: Transcript,
+  settings: ChatSettings,
+  cached: TranscriptRef,
+) {
+  const header = settings.showLanguage && transcript.language ? `Language: ${transcript.language}` : ''
+  // In groups transcripts always thread under the message they belong to.
+  const other = settings.replyAsQuote || job.inGroup
+    ? { reply_parameters: { message_id: job.messageId, allow_sending_without_reply: true } }
+    : {}
+
+  const blocks = transcript.turns.length ? transcript.turns.map(formatSpeakerTurn) : [transcript.text]
+  if (header)
+    blocks.unshift(header)
+  const chunks = packForTelegram(blocks, TELEGRAM_MESSAGE_MAX_CHARS)
+
+  // Very long transcripts arrive as one file instead of a wall of messages.
+  const format = settings.outputFormat === 'text' && chunks.length > TEXT_REPLY_MAX_MESSAGES
+    ? 'txt'
+    : settings.outputFormat
+
+  // Summary, action items and translation buttons go under the last message;
+  // presses read the text back from the transcript cache.
+  const replyMarkup = postprocessKeyboard(transcript.text, cached)
+
+  if (format !== 'text') {
+    const rendered = renderTranscript(transcript, format)
+    await api.sendDocument(
+      job.chatId,
+      new InputFile(Buffer.from(rendered.content, 'utf8'), rendered.fileName),
+      { message_thread_id: job.threadId, caption: header || undefined, reply_markup: replyMarkup, ...other },
+    )
+    return
+  }
 
-  return chunks.length ? chunks : ['']
+  for (const [index, chunk] of chunks.entries()) {
+    await sendToChat(api, job, chunk, {
+      ...(index === 0 ? other : {}),
+      ...(index === chunks.length - 1 && replyMarkup ? { reply_markup: replyMarkup } : {}),
+    })
+  }
 }
 
-function findSplitPoint(slice: string, maxChars: number) {
-  const minPreferred = Math.floor(maxChars * 0.6)
-  const candidates = [slice.lastIndexOf('\n\n'), slice.lastIndexOf('\n'), slice.lastIndexOf(' ')]
+/**
+ * Replies from the transcript cache when the newest key in `keys` has an
+ * entry, aliasing it under the other keys. Returns false on a miss.
+ */
+async function answerFromCache(
+  api: Api,
+  job: QueuedJob,
+  keys: string[],
+  variant: CacheVariant,
+  settings: ChatSettings,
+  progress: ReturnType<typeof createProgressReporter>,
+  jobStartedAt: number,
+) {
+  let cached: ReturnType<typeof getCachedTranscript> = null
+  try {
+    cached = getCachedTranscript(keys[keys.length - 1], variant)
+  }
+  catch (error) {
+    log.warn('cache lookup failed', { error })
+  }
+  if (!cached)
+    return false
+
+  log.info('cache hit', { key: keys[keys.length - 1], modelKey: cached.modelKey })
+  updateUsageAudioSec(job.id, 0)
+  if (keys.length > 1)
+    storeInCache(keys.slice(0, -1), variant, cached.transcript)
+  recordJobSafe(variant.modelKey, job, { success: true, cached: true, audioSec: cached.transcript.durationSec })
+  jobsTotal.inc({ outcome: 'cached', media_type: job.mediaType })
+
+  if (!cached.transcript.text) {
+    await progress.update({ stage: 'no_speech' })
+    return true
+  }
+
+  await deliverTranscript(api, job, cached.transcript, settings, { key: keys[keys.length - 1], variant })
+  await progress.update({ stage: 'done', elapsedMs: Date.now() - jobStartedAt })
+  return true
+}
 
-  for (const idx of candidates) {
-    if (idx >= minPreferred)
-      return idx + 1
+function storeInCache(keys: string[], variant: CacheVariant, transcript: Transcript) {
+  try {
+    cacheTranscript(keys, variant, transcript)
   }
+  catch (error) {
+    log.warn('cache store failed', { error })
+  }
+}
 
-  return maxChars
+function offsetTimes<T extends { start: number, end: number }>(items: T[], offsetSec: number) {
+  return items.map(item => ({ ...item, start: item.start + offsetSec, end: item.end + offsetSec }))
 }
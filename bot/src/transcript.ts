@@ -0,0 +1,234 @@
+const MAX_OVERLAP_WORDS = 40
+const MIN_OVERLAP_WORDS = 3
+// Quiet overlaps can hold only a word or two; a run that short only counts
+// when it sits exactly at the end of one chunk and the start of the next.
+const MIN_BOUNDARY_OVERLAP_WORDS = 1
+const EDGE_SLACK_WORDS = 2
+const CUE_MAX_SEC = 6
+const CUE_MAX_CHARS = 84
+const CUE_MIN_SENTENCE_SEC = 1.5
+
+interface Token {
+  word: string
+  end: number
+}
+
+export function stitchTranscripts(parts: string[]) {
+  let result = ''
+
+  for (const part of parts) {
+    const text = part.trim()
+    if (!text)
+      continue
+
+    result = result ? mergeOverlap(result, text) : text
+  }
+
+  return result
+}
+
+// Chunk edges are cut mid-word, so the last words of `previous` and the first
+// words of `next` may be garbled; allow a little slack on both sides when
+// looking for the shared run of words.
+function mergeOverlap(previous: string, next: string) {
+  const prevTokens = tokenize(previous).slice(-(MAX_OVERLAP_WORDS + EDGE_SLACK_WORDS))
+  const nextTokens = tokenize(next).slice(0, MAX_OVERLAP_WORDS + EDGE_SLACK_WORDS)
+  const maxSize = Math.min(MAX_OVERLAP_WORDS, prevTokens.length, nextTokens.length)
+
+  for (let size = maxSize; size >= MIN_BOUNDARY_OVERLAP_WORDS; size--) {
+    const slack = size >= MIN_OVERLAP_WORDS ? EDGE_SLACK_WORDS : 0
+    for (let prevSkip = 0; prevSkip <= slack; prevSkip++) {
+      const prevEnd = prevTokens.length - prevSkip
+      const prevStart = prevEnd - size
+      if (prevStart < 0)
+        break
+
+      for (let nextSkip = 0; nextSkip <= slack; nextSkip++) {
+        if (nextSkip + size > nextTokens.length)
+          break
+
+        if (sameWords(prevTokens, prevStart, nextTokens, nextSkip, size)) {
+          const head = previous.slice(0, prevTokens[prevEnd - 1].end)
+          const tail = next.slice(nextTokens[nextSkip + size - 1].end)
+          return `${head}${tail}`
+        }
+      }
+    }
+  }
+
+  return `${previous} ${next}`
+}
+
+function sameWords(a: Token[], aStart: number, b: Token[], bStart: number, size: number) {
+  for (let i = 0; i < size; i++) {
+    if (a[aStart + i].word !== b[bStart + i].word)
+      return false
+  }
+  return true
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(/\S+/g)) {
+    tokens.push({
+      word: match[0].toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''),
+      end: match.index + match[0].length,
+    })
+  }
+  return tokens
+}
+
+export interface TranscriptWord {
+  text: string
+  /** Seconds from the start of the audio; handleAudio offsets chunk words to the whole recording. */
+  start: number
+  end: number
+  type: 'word' | 'spacing' | 'audio_event'
+  speaker?: string
+}
+
+/** A timed stretch of text: a provider segment or a subtitle cue. */
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+  /** Display label, see SpeakerTurn. */
+  speaker?: string
+}
+
+export interface SpeakerTurn {
+  /** Display label, `Speaker 1`, `Speaker 2`, … in order of first appearance. */
+  speaker: string
+  text: string
+  start: number
+  end: number
+}
+
+/** Everything handleAudio learned about one recording, times in seconds from its start. */
+export interface Transcript {
+  text: string
+  language?: string
+  durationSec?: number
+  words: TranscriptWord[]
+  segments: TranscriptSegment[]
+  turns: SpeakerTurn[]
+}
+
+/**
+ * Keeps the timed items of each chunk that fall inside its share of the
+ * recording. Overlapping ranges are split at their midpoint, so every word or
+ * segment is kept once.
+ */
+export function mergeChunkTimeline<T extends { start: number }>(
+  chunks: Array<{ startSec: number, durationSec: number, items: T[] }>,
+) {
+  const merged: T[] = []
+
+  chunks.forEach((chunk, index) => {
+    const previous = chunks[index - 1]
+    const next = chunks[index + 1]
+    const from = previous ? (previous.startSec + previous.durationSec + chunk.startSec) / 2 : -Infinity
+    const to = next ? (chunk.startSec + chunk.durationSec + next.startSec) / 2 : Infinity
+
+    for (const item of chunk.items) {
+      if (item.start >= from && item.start < to)
+        merged.push(item)
+    }
+  })
+
+  return merged
+}
+
+/**
+ * Groups consecutive words by speaker. Speaker IDs come from the provider and
+ * are only stable within one request, so chunked recordings may relabel
+ * speakers at chunk boundaries.
+ */
+export function toSpeakerTurns(words: TranscriptWord[]) {
+  const labels = speakerLabels(words)
+  const turns: SpeakerTurn[] = []
+
+  for (const word of words) {
+    if (word.type === 'word' && word.speaker) {
+      const label = labels.get(word.speaker)!
+      if (turns.at(-1)?.speaker !== label)
+        turns.push({ speaker: label, text: '', start: word.start, end: word.end })
+    }
+
+    const current = turns.at(-1)
+    if (!current)
+      continue
+
+    current.text += word.text
+    current.end = Math.max(current.end, word.end)
+  }
+
+  return turns
+    .map(turn => ({ ...turn, text: turn.text.replace(/\s+/g, ' ').trim() }))
+    .filter(turn => turn.text)
+}
+
+export function formatSpeakerTurn(turn: SpeakerTurn) {
+  return `${turn.speaker}: ${turn.text}`
+}
+
+/**
+ * Subtitle cues for the transcript: built from words when the provider gave
+ * them, else its own segments, else one cue for the whole recording.
+ */
+export function toSubtitleCues(transcript: Transcript): TranscriptSegment[] {
+  if (transcript.words.some(word => word.type === 'word'))
+    return cuesFromWords(transcript.words, transcript.turns.length > 0)
+
+  if (transcript.segments.length)
+    return transcript.segments
+
+  if (!transcript.text)
+    return []
+
+  return [{ start: 0, end: transcript.durationSec ?? 0, text: transcript.text }]
+}
+
+function cuesFromWords(words: TranscriptWord[], withSpeakers: boolean) {
+  const labels = speakerLabels(words)
+  const cues: TranscriptSegment[] = []
+  let cue: TranscriptSegment | null = null
+
+  for (const word of words) {
+    if (word.type === 'spacing') {
+      if (cue)
+        cue.text += word.text
+      continue
+    }
+
+    const speaker = withSpeakers && word.speaker ? labels.get(word.speaker) : undefined
+    if (
+      !cue
+      || (speaker && cue.speaker !== speaker)
+      || word.end - cue.start > CUE_MAX_SEC
+      || `${cue.text}${word.text}`.trim().length > CUE_MAX_CHARS
+    ) {
+      cue = { start: word.start, end: word.end, text: '', speaker }
+      cues.push(cue)
+    }
+
+    cue.text += word.text
+    cue.end = word.end
+
+    if (/[.!?…]$/.test(word.text) && cue.end - cue.start >= CUE_MIN_SENTENCE_SEC)
+      cue = null
+  }
+
+  return cues
+    .map(item => ({ ...item, text: item.text.replace(/\s+/g, ' ').trim() }))
+    .filter(item => item.text)
+}
+
+function speakerLabels(words: TranscriptWord[]) {
+  const labels = new Map<string, string>()
+  for (const word of words) {
+    if (word.speaker && !labels.has(word.speaker))
+      labels.set(word.speaker, `Speaker ${labels.size + 1}`)
+  }
+  return labels
+}
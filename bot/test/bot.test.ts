@@ -0,0 +1,158 @@
+import type { Subprocess } from 'bun'
+import path from 'node:path'
+import process from 'node:process'
+import { Database } from 'bun:sqlite'
+import { afterEach, describe, expect, it } from 'bun:test'
+import { cacheTranscript, fileCacheKey } from '../src/cache'
+import { formatProgress } from '../src/progress'
+import { getSttProvider } from '../src/stt'
+import { makeFixture, resetFakes, skipFfmpeg, stt, telegram, testEnv, tmpDir } from './harness'
+
+const user = { id: 7, is_bot: false, first_name: 'Ada' }
+let nextMessageId = 1
+
+function pushMessage(fields: Record<string, unknown>) {
+  telegram.pushUpdate({
+    message: {
+      message_id: nextMessageId++,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: user.id, type: 'private', first_name: user.first_name },
+      from: user,
+      ...fields,
+    } as any,
+  })
+}
+
+const replyTo = (text: string) => (params: Record<string, any>) => params.text === text
+
+const voice = (fileId: string) => ({ voice: { file_id: fileId, file_unique_id: `${fileId}-unique`, duration: 2, mime_type: 'audio/ogg', file_size: 1024 } })
+
+// Generous for a cold `bun src/index.ts` on a slow CI runner; every wait below is shorter.
+const BOT_TEST_TIMEOUT_MS = 30_000
+const STOP_TIMEOUT_MS = 5_000
+
+const running = new Set<Subprocess>()
+
+/**
+ * Runs the whole bot in its own process, long polling the fake Bot API:
+ * updates pushed here come back as getUpdates results, replies land in
+ * telegram.calls. It runs on the same bun as the tests and is stopped after
+ * every test, so no two bots ever poll the fakes at once.
+ */
+function startBot(name: string, env: Record<string, string> = {}): Subprocess {
+  resetFakes()
+  const bot = Bun.spawn([process.execPath, 'src/index.ts'], {
+    cwd: path.join(import.meta.dir, '..'),
+    env: {
+      ...process.env,
+      ...testEnv,
+      DATA_DIR: path.join(tmpDir, name),
+      PORT: String(freePort()),
+      ...env,
+    },
+    stdout: 'ignore',
+    stderr: 'inherit',
+  })
+  running.add(bot)
+  return bot
+}
+
+/** SIGTERM, then SIGKILL if the bot is still shutting down after STOP_TIMEOUT_MS. */
+async function stopBot(bot: Subprocess) {
+  bot.kill()
+  const exited = await Promise.race([bot.exited, Bun.sleep(STOP_TIMEOUT_MS).then(() => null)])
+  if (exited === null) {
+    bot.kill('SIGKILL')
+    await bot.exited
+  }
+  running.delete(bot)
+}
+
+function freePort() {
+  const probe = Bun.serve({ port: 0, fetch: () => new Response() })
+  const port = probe.port
+  probe.stop(true)
+  return port
+}
+
+// Also runs after a test that failed or timed out, so its bot cannot answer the next test's updates.
+afterEach(async () => {
+  await Promise.all([...running].map(stopBot))
+})
+
+describe('bot over long polling', () => {
+  it('answers /start', async () => {
+    startBot('bot-data')
+    pushMessage({ text: '/start', entities: [{ type: 'bot_command', offset: 0, length: 6 }] })
+    await telegram.waitForCall('sendMessage', params => String(params.text).startsWith('Hey!'), 15_000)
+  }, BOT_TEST_TIMEOUT_MS)
+
+  it('refuses documents that are not audio or video', async () => {
+    startBot('bot-data')
+    pushMessage({ document: { file_id: 'pdf', file_unique_id: 'pdf-unique', file_name: 'memo.pdf', mime_type: 'application/pdf' } })
+    await telegram.waitForCall('sendMessage', replyTo('Please send a voice message, audio file, or video.'), 15_000)
+  }, BOT_TEST_TIMEOUT_MS)
+
+  it.skipIf(skipFfmpeg)('transcribes a voice message', async () => {
+    startBot('bot-data')
+    telegram.addFile('bot-voice', { bytes: await Bun.file(makeFixture('bot-voice.ogg', { input: 'sine=frequency=330:duration=2' })).bytes() })
+
+    pushMessage(voice('bot-voice'))
+    await telegram.waitForCall('sendMessage', replyTo('Got it!'), 15_000)
+    await telegram.waitForCall('sendMessage', replyTo('hello from the fake provider'))
+    expect(stt.requests).toHaveLength(1)
+  }, BOT_TEST_TIMEOUT_MS)
+})
+
+describe('usage', () => {
+  it('does not charge audio minutes for answers from the cache', async () => {
+    const transcript = { text: 'cached for the usage test', words: [], segments: [], turns: [] }
+    cacheTranscript([fileCacheKey('usage-voice-unique')], { modelKey: getSttProvider().key, diarize: false }, transcript)
+    // Shares this process's data directory, so the transcript cached above is the bot's too.
+    startBot('usage-data', { DATA_DIR: testEnv.DATA_DIR })
+
+    pushMessage({ voice: { file_id: 'usage-voice', file_unique_id: 'usage-voice-unique', duration: 120, mime_type: 'audio/ogg', file_size: 1024 } })
+    await telegram.waitForCall('sendMessage', replyTo(transcript.text), 15_000)
+
+    const db = new Database(path.join(testEnv.DATA_DIR, 'queue.db'), { readonly: true })
+    try {
+      expect(db.query('SELECT audio_sec FROM usage WHERE user_id = ?').all(user.id)).toEqual([{ audio_sec: 0 }])
+    }
+    finally {
+      db.close()
+    }
+    expect(stt.requests).toHaveLength(0)
+  }, BOT_TEST_TIMEOUT_MS)
+})
+
+describe('shutdown', () => {
+  it('aborts running jobs at the deadline and tells queued users', async () => {
+    const bot = startBot('shutdown-data', { SHUTDOWN_TIMEOUT_SEC: '0.5' })
+
+    // Downloads that hang keep the first job running without needing ffmpeg.
+    telegram.addFile('slow-1', { bytes: new Uint8Array(1024), delayMs: 30_000 })
+    telegram.addFile('slow-2', { bytes: new Uint8Array(1024), delayMs: 30_000 })
+    pushMessage(voice('slow-1'))
+    await telegram.waitForCall('getFile', params => params.file_id === 'slow-1', 15_000)
+    pushMessage(voice('slow-2'))
+    await telegram.waitForCall('editMessageText', replyTo(formatProgress(2, { stage: 'queued', position: 1 })))
+
+    bot.kill('SIGTERM')
+    expect(await bot.exited).toBe(0)
+    await telegram.waitForCall('editMessageText', replyTo(formatProgress(1, { stage: 'interrupted' })), 0)
+    await telegram.waitForCall('editMessageText', replyTo(formatProgress(2, { stage: 'restarting' })), 0)
+  }, BOT_TEST_TIMEOUT_MS)
+})
+
+describe('limits', () => {
+  it.skipIf(skipFfmpeg)('holds documents without a declared duration to the daily limit once probed', async () => {
+    // 0.6 s a day: any fixture is over it once measured.
+    startBot('limits-data', { USER_AUDIO_MINUTES_PER_DAY: '0.01' })
+    const bytes = await Bun.file(makeFixture('limit-doc.ogg', { input: 'sine=frequency=392:duration=2' })).bytes()
+    telegram.addFile('limit-doc', { bytes, filePath: 'documents/limit-doc.ogg' })
+
+    pushMessage({ document: { file_id: 'limit-doc', file_unique_id: 'limit-doc-unique', file_name: 'memo.ogg', mime_type: 'audio/ogg' } })
+    await telegram.waitForCall('editMessageText', params => String(params.text).includes('daily audio minutes left'), 15_000)
+    expect(stt.requests).toHaveLength(0)
+  }, BOT_TEST_TIMEOUT_MS)
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test'
+import { loadConfig } from '../src/config'
+
+const required = { TELEGRAM_BOT_TOKEN: '1:abc', ELEVENLABS_API_KEY: 'key' }
+
+function configError(env: Record<string, string>, file: Record<string, unknown> = {}) {
+  try {
+    loadConfig(env, file)
+  }
+  catch (error) {
+    return (error as Error).message
+  }
+  throw new Error('expected the configuration to be rejected')
+}
+
+describe('loadConfig', () => {
+  it('applies defaults', () => {
+    const { config } = loadConfig(required, {})
+    expect(config.telegram.apiRoot).toBe('https://api.telegram.org')
+    expect(config.telegram.fileRoot).toBe('https://api.telegram.org/file')
+    expect(config.telegram.maxFileMb).toBe(20)
+    expect(config.stt.elevenLabsBaseUrl).toBe('https://api.elevenlabs.io/v1')
+    expect(config.stt.provider).toBe('elevenlabs')
+    expect(config.llm).toBeNull()
+    expect(config.queue).toEqual({ concurrency: 1, maxQueue: 20, maxAttempts: 3, shutdownTimeoutSec: 20 })
+  })
+
+  it('takes base URLs from the environment without trailing slashes', () => {
+    const { config } = loadConfig({
+      ...required,
+      TELEGRAM_API_ROOT: 'http://127.0.0.1:8081/',
+      ELEVENLABS_BASE_URL: 'http://127.0.0.1:9000/v1/',
+    }, {})
+    expect(config.telegram.apiRoot).toBe('http://127.0.0.1:8081')
+    expect(config.telegram.fileRoot).toBe('http://127.0.0.1:8081/file')
+    expect(config.stt.elevenLabsBaseUrl).toBe('http://127.0.0.1:9000/v1')
+  })
+
+  it('prefers the environment over the config file', () => {
+    const { config, entries } = loadConfig({ ...required, QUEUE_MAX: '5' }, { QUEUE_MAX: 50, QUEUE_CONCURRENCY: 2 })
+    expect(config.queue.maxQueue).toBe(5)
+    expect(config.queue.concurrency).toBe(2)
+    expect(entries.find(entry => entry.name === 'QUEUE_CONCURRENCY')?.source).toBe('file')
+  })
+
+  it('reports every invalid setting at once', () => {
+    const message = configError({ ELEVENLABS_BASE_URL: 'not a url', QUEUE_CONCURRENCY: '0', AUDIO_CODEC: 'mp3' })
+    expect(message).toContain('TELEGRAM_BOT_TOKEN is required')
+    expect(message).toContain('ELEVENLABS_BASE_URL must be a URL')
+    expect(message).toContain('QUEUE_CONCURRENCY')
+    expect(message).toContain('AUDIO_CODEC')
+  })
+
+  it('rejects unknown keys in the config file', () => {
+    expect(configError(required, { QUEUE_MAXIMUM: 5 })).toContain('unknown settings: QUEUE_MAXIMUM')
+  })
+
+  it('caps the public Bot API file size', () => {
+    expect(configError({ ...required, TELEGRAM_MAX_FILE_MB: '50' })).toContain('TELEGRAM_MAX_FILE_MB')
+  })
+})
@@ -0,0 +1,80 @@
+export interface FakeSttResponse {
+  status?: number
+  body?: unknown
+  headers?: Record<string, string>
+  /** Holds the response back, e.g. to trip the request timeout. */
+  delayMs?: number
+}
+
+export interface SttRequest {
+  fields: Record<string, string>
+  fileName: string
+  fileBytes: number
+}
+
+export interface FakeStt {
+  /** Use as ELEVENLABS_BASE_URL. */
+  baseUrl: string
+  requests: SttRequest[]
+  /** Queues responses for the next transcription requests; afterwards every request gets DEFAULT_TRANSCRIPT. */
+  respondWith: (...responses: FakeSttResponse[]) => void
+  reset: () => void
+  stop: () => void
+}
+
+export const DEFAULT_TRANSCRIPT = { text: 'hello from the fake provider', language_code: 'en' }
+
+/**
+ * Stand-in for the ElevenLabs speech-to-text API: `POST /v1/speech-to-text`
+ * and `GET /v1/models` for readiness checks.
+ */
+export function startFakeStt(): FakeStt {
+  const requests: SttRequest[] = []
+  let queued: FakeSttResponse[] = []
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url)
+      if (pathname === '/v1/models')
+        return Response.json([])
+      if (pathname !== '/v1/speech-to-text' || req.method !== 'POST')
+        return new Response('Not Found', { status: 404 })
+
+      const fields: Record<string, string> = {}
+      let fileName = ''
+      let fileBytes = 0
+      const form = await req.formData()
+      for (const key of form.keys()) {
+        const value = form.get(key)!
+        if (typeof value === 'string') {
+          fields[key] = value
+        }
+        else {
+          fileName = value.name
+          fileBytes = value.size
+        }
+      }
+      requests.push({ fields, fileName, fileBytes })
+
+      const response = queued.shift() ?? {}
+      if (response.delayMs)
+        await Bun.sleep(response.delayMs)
+      return Response.json(response.body ?? DEFAULT_TRANSCRIPT, {
+        status: response.status ?? 200,
+        headers: response.headers,
+      })
+    },
+  })
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.port}/v1`,
+    requests,
+    respondWith: (...responses) => queued.push(...responses),
+    reset() {
+      requests.length = 0
+      queued = []
+    },
+    stop: () => server.stop(true),
+  }
+}
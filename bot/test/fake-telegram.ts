@@ -0,0 +1,163 @@
+import type { Update } from 'grammy/types'
+
+export interface FakeFile {
+  bytes: Uint8Array<ArrayBuffer>
+  /** Defaults to `voice/<file_id>.ogg`. */
+  filePath?: string
+  /** getFile answers like the public Bot API does above 20MB. */
+  tooBig?: boolean
+  /** Holds the download back, e.g. to keep a job running. */
+  delayMs?: number
+}
+
+export interface ApiCall {
+  method: string
+  params: Record<string, any>
+}
+
+export interface FakeTelegram {
+  token: string
+  /** Use as TELEGRAM_API_ROOT; files are served under `${apiRoot}/file`. */
+  apiRoot: string
+  calls: ApiCall[]
+  addFile: (fileId: string, file: FakeFile) => void
+  pushUpdate: (update: Omit<Update, 'update_id'>) => void
+  /** Resolves with the first call to `method` matching `predicate`, including calls already made. */
+  waitForCall: (method: string, predicate?: (params: Record<string, any>) => boolean, timeoutMs?: number) => Promise<ApiCall>
+  reset: () => void
+  stop: () => void
+}
+
+const BOT_USER = { id: 1000, is_bot: true, first_name: 'Test', username: 'test_bot' }
+// Long polling answers this quickly when there is nothing to deliver.
+const IDLE_POLL_MS = 100
+
+/**
+ * Stand-in for the Bot API: getMe, getUpdates, getFile and file downloads,
+ * and message sending. Every other method succeeds with `true`. Calls are
+ * recorded so tests can assert on what the bot said.
+ */
+export function startFakeTelegram(token = '123:test'): FakeTelegram {
+  const calls: ApiCall[] = []
+  const files = new Map<string, FakeFile>()
+  let updates: Update[] = []
+  let nextUpdateId = 1
+  let nextMessageId = 1
+
+  const ok = (result: unknown) => Response.json({ ok: true, result })
+  const fail = (code: number, description: string) => Response.json({ ok: false, error_code: code, description }, { status: code })
+
+  const message = (params: Record<string, any>) => ({
+    message_id: nextMessageId++,
+    date: Math.floor(Date.now() / 1000),
+    chat: { id: Number(params.chat_id), type: 'private' },
+    text: params.text,
+  })
+
+  async function readParams(req: Request): Promise<Record<string, any>> {
+    const type = req.headers.get('content-type') ?? ''
+    if (type.includes('application/json'))
+      return await req.json() as Record<string, any>
+    if (!type.includes('multipart/form-data'))
+      return {}
+
+    // grammY sends objects as JSON strings and files as parts; keep file contents as text.
+    const params: Record<string, any> = {}
+    const form = await req.formData()
+    for (const key of form.keys()) {
+      const value = form.get(key)!
+      params[key] = typeof value === 'string' ? value : await value.text()
+    }
+    return params
+  }
+
+  async function getUpdates(params: Record<string, any>) {
+    if (params.offset)
+      updates = updates.filter(update => update.update_id >= params.offset)
+    if (!updates.length)
+      await Bun.sleep(IDLE_POLL_MS)
+    return ok(updates)
+  }
+
+  function getFile(params: Record<string, any>) {
+    const file = files.get(params.file_id)
+    if (!file)
+      return fail(400, 'Bad Request: invalid file_id')
+    if (file.tooBig)
+      return fail(400, 'Bad Request: file is too big')
+    return ok({
+      file_id: params.file_id,
+      file_unique_id: `unique-${params.file_id}`,
+      file_size: file.bytes.byteLength,
+      file_path: file.filePath ?? `voice/${params.file_id}.ogg`,
+    })
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url)
+
+      const filePrefix = `/file/bot${token}/`
+      if (pathname.startsWith(filePrefix)) {
+        const filePath = decodeURIComponent(pathname.slice(filePrefix.length))
+        const file = [...files.entries()].find(([fileId, entry]) => (entry.filePath ?? `voice/${fileId}.ogg`) === filePath)
+        if (!file)
+          return new Response('Not Found', { status: 404 })
+        if (file[1].delayMs)
+          await Bun.sleep(file[1].delayMs)
+        return new Response(file[1].bytes)
+      }
+
+      const apiPrefix = `/bot${token}/`
+      if (!pathname.startsWith(apiPrefix))
+        return fail(401, 'Unauthorized')
+
+      const method = pathname.slice(apiPrefix.length)
+      const params = await readParams(req)
+      if (method !== 'getUpdates')
+        calls.push({ method, params })
+
+      switch (method) {
+        case 'getMe':
+          return ok(BOT_USER)
+        case 'getUpdates':
+          return getUpdates(params)
+        case 'getFile':
+          return getFile(params)
+        case 'sendMessage':
+        case 'sendDocument':
+        case 'editMessageText':
+          return ok(message(params))
+        default:
+          return ok(true)
+      }
+    },
+  })
+
+  return {
+    token,
+    apiRoot: `http://127.0.0.1:${server.port}`,
+    calls,
+    addFile: (fileId, file) => files.set(fileId, file),
+    pushUpdate: update => updates.push({ ...update, update_id: nextUpdateId++ } as Update),
+    async waitForCall(method, predicate = () => true, timeoutMs = 10_000) {
+      const deadline = Date.now() + timeoutMs
+      for (;;) {
+        const call = calls.find(call => call.method === method && predicate(call.params))
+        if (call)
+          return call
+        if (Date.now() >= deadline)
+          break
+        await Bun.sleep(20)
+      }
+      throw new Error(`no ${method} call within ${timeoutMs}ms; got ${calls.map(call => call.method).join(', ') || 'none'}`)
+    },
+    reset() {
+      calls.length = 0
+      files.clear()
+      updates = []
+    },
+    stop: () => server.stop(true),
+  }
+}
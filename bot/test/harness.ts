@@ -0,0 +1,66 @@
+import { spawnSync } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import process from 'node:process'
+import { afterAll } from 'bun:test'
+import { startFakeStt } from './fake-stt'
+import { startFakeTelegram } from './fake-telegram'
+
+/** Opt-in for machines without ffmpeg; a missing ffmpeg otherwise fails the run instead of hiding tests. */
+export const skipFfmpeg = process.env.SKIP_FFMPEG_TESTS === '1'
+if (!skipFfmpeg && !['ffmpeg', 'ffprobe'].every(bin => Bun.which(bin) !== null))
+  throw new Error('ffmpeg and ffprobe must be on PATH to run the tests; set SKIP_FFMPEG_TESTS=1 to skip the tests that need them')
+
+// Preloaded (see bunfig.toml) before any test reads the configuration, so
+// the bot only ever talks to the fakes below and keeps its data in a
+// throwaway directory. bun runs all test files in one process, so they share
+// these servers.
+export const telegram = startFakeTelegram()
+export const stt = startFakeStt()
+
+export const tmpDir = mkdtempSync(path.join(os.tmpdir(), 'lewhisperrr-test-'))
+
+/** Small enough that the size checks are cheap to trip. */
+export const MAX_FILE_MB = 1
+
+export const testEnv: Record<string, string> = {
+  TELEGRAM_BOT_TOKEN: telegram.token,
+  TELEGRAM_API_ROOT: telegram.apiRoot,
+  TELEGRAM_MAX_FILE_MB: String(MAX_FILE_MB),
+  STT_PROVIDER: 'elevenlabs',
+  ELEVENLABS_API_KEY: 'test-key',
+  ELEVENLABS_BASE_URL: stt.baseUrl,
+  DATA_DIR: path.join(tmpDir, 'data'),
+  LOG_LEVEL: 'silent',
+}
+
+for (const name of Object.keys(process.env)) {
+  // A developer's own .env must not leak into the tests.
+  if (/^(?:TELEGRAM_|ELEVENLABS_|OPENAI_STT_|LLM_|STT_|AUDIO_|QUEUE_|USER_|ALLOWED_|ADMIN_|CONFIG_FILE$)/.test(name))
+    delete process.env[name]
+}
+Object.assign(process.env, testEnv)
+
+/**
+ * Renders a lavfi source (a 2 s sine tone by default) with real ffmpeg. Vary
+ * the tone per test: identical bytes would hit the transcript cache.
+ */
+export function makeFixture(name: string, { input = 'sine=frequency=440:duration=2', args = ['-c:a', 'libopus'] } = {}) {
+  const out = path.join(tmpDir, name)
+  const result = spawnSync('ffmpeg', ['-hide_banner', '-loglevel', 'error', '-y', '-f', 'lavfi', '-i', input, ...args, out])
+  if (result.status !== 0)
+    throw new Error(`ffmpeg could not render ${name}: ${result.stderr}`)
+  return out
+}
+
+afterAll(() => {
+  telegram.stop()
+  stt.stop()
+  rmSync(tmpDir, { recursive: true, force: true })
+})
+
+export function resetFakes() {
+  telegram.reset()
+  stt.reset()
+}
@@ -0,0 +1,49 @@
+import process from 'node:process'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import { BotError } from 'grammy'
+import { getConfig } from '../src/config'
+import { JobError } from '../src/errors'
+import { log } from '../src/logger'
+
+let lines: string[] = []
+let stderr: { mockRestore: () => void }
+
+describe('log', () => {
+  beforeEach(() => {
+    // The harness silences logging for the rest of the suite.
+    getConfig().log.level = 'error'
+    lines = []
+    stderr = spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+      lines.push(String(chunk))
+      return true
+    })
+  })
+  afterEach(() => {
+    getConfig().log.level = 'silent'
+    stderr.mockRestore()
+  })
+
+  it('logs only allow-listed error fields', () => {
+    const ctx = { api: { token: '123:SECRETTOKEN' }, update: { update_id: 9, message: { text: 'private words' } } }
+    const error = new BotError(new JobError('download', 'boom', { status: 502 }), ctx as any)
+    log.error('bot error', { error })
+
+    expect(lines).toHaveLength(1)
+    expect(lines[0]).not.toContain('SECRETTOKEN')
+    expect(lines[0]).not.toContain('private words')
+    expect(JSON.parse(lines[0]).error.error).toMatchObject({ name: 'JobError', message: 'boom', kind: 'download', status: 502 })
+  })
+
+  it('keeps causes and drops message text from Bot API payloads', () => {
+    const cause = Object.assign(new Error('Call to sendMessage failed'), {
+      method: 'sendMessage',
+      error_code: 400,
+      payload: { chat_id: 5, text: 'the transcript' },
+    })
+    log.error('delivery failed', { error: new Error('wrapped', { cause }) })
+
+    const entry = JSON.parse(lines[0])
+    expect(entry.error.cause).toMatchObject({ method: 'sendMessage', error_code: 400, payload: { chat_id: 5 } })
+    expect(lines[0]).not.toContain('the transcript')
+  })
+})
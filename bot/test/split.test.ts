@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test'
+import { packForTelegram, splitForTelegram } from '../src/split'
+
+describe('splitForTelegram', () => {
+  it('keeps short text in one message', () => {
+    expect(splitForTelegram('hello world', 100)).toEqual(['hello world'])
+  })
+
+  it('returns one empty message for empty text', () => {
+    expect(splitForTelegram('', 100)).toEqual([''])
+  })
+
+  it('prefers paragraph breaks, then line breaks, then spaces', () => {
+    const paragraphs = `${'a'.repeat(70)}\n\n${'b'.repeat(50)}`
+    expect(splitForTelegram(paragraphs, 100)).toEqual(['a'.repeat(70), 'b'.repeat(50)])
+
+    const lines = `${'a'.repeat(70)}\n${'b'.repeat(50)}`
+    expect(splitForTelegram(lines, 100)).toEqual(['a'.repeat(70), 'b'.repeat(50)])
+
+    const words = `${'a'.repeat(70)} ${'b'.repeat(50)}`
+    expect(splitForTelegram(words, 100)).toEqual(['a'.repeat(70), 'b'.repeat(50)])
+  })
+
+  it('cuts hard when the only break is too early in the message', () => {
+    const text = `${'a'.repeat(10)} ${'b'.repeat(150)}`
+    const chunks = splitForTelegram(text, 100)
+    expect(chunks[0]).toHaveLength(100)
+    expect(chunks.join('')).toBe(text)
+  })
+
+  it('cuts words longer than a message', () => {
+    expect(splitForTelegram('x'.repeat(250), 100)).toEqual(['x'.repeat(100), 'x'.repeat(100), 'x'.repeat(50)])
+  })
+
+  it('normalizes CRLF and never emits blank chunks', () => {
+    const text = `${'a'.repeat(80)}\r\n\r\n   \r\n${'b'.repeat(30)}`
+    expect(splitForTelegram(text, 100)).toEqual(['a'.repeat(80), 'b'.repeat(30)])
+  })
+
+  it('falls back to the Telegram limit for invalid sizes', () => {
+    const text = 'word '.repeat(1000)
+    for (const maxChars of [0, -5, Number.NaN])
+      expect(splitForTelegram(text, maxChars).every(chunk => chunk.length <= 3900)).toBe(true)
+  })
+
+  it('keeps every chunk within the limit', () => {
+    const text = Array.from({ length: 400 }, (_, i) => `sentence number ${i}.`).join(' ')
+    const chunks = splitForTelegram(text, 250)
+    expect(chunks.every(chunk => chunk.length <= 250)).toBe(true)
+    expect(chunks.join(' ')).toBe(text)
+  })
+})
+
+describe('packForTelegram', () => {
+  it('joins blocks that fit together', () => {
+    expect(packForTelegram(['one', 'two'], 100)).toEqual(['one\n\ntwo'])
+  })
+
+  it('does not cut a block that fits into a message of its own', () => {
+    const first = 'a'.repeat(60)
+    const second = 'b'.repeat(60)
+    expect(packForTelegram([first, second], 100)).toEqual([first, second])
+  })
+
+  it('splits oversized blocks and keeps packing after them', () => {
+    const long = `${'a'.repeat(90)} ${'b'.repeat(90)}`
+    expect(packForTelegram([long, 'tail'], 100)).toEqual(['a'.repeat(90), `${'b'.repeat(90)}\n\ntail`])
+  })
+
+  it('returns one empty message for no blocks', () => {
+    expect(packForTelegram([], 100)).toEqual([''])
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'bun:test'
+import { getStatsMessage, parseLegacyStatsFile, recordJob } from '../src/stats'
+
+const v0 = { totalJobs: 4, successJobs: 3, failedJobs: 1, avgAsrMs: 900, lastError: 'boom' }
+
+describe('parseLegacyStatsFile', () => {
+  it('reads the original bare stats object as the ElevenLabs scribe_v2 model', () => {
+    const models = parseLegacyStatsFile(v0)
+    expect(Object.keys(models)).toEqual(['elevenlabs:scribe_v2'])
+    expect(models['elevenlabs:scribe_v2']).toMatchObject(v0)
+  })
+
+  it('fills fields missing from older files with defaults', () => {
+    const stats = parseLegacyStatsFile(v0)['elevenlabs:scribe_v2']
+    expect(stats.cacheHits).toBe(0)
+    expect(stats.asrRateJobs).toBe(0)
+    expect(stats.lastJobAt).toBeNull()
+  })
+
+  it('reads v1 files keyed by model', () => {
+    const models = parseLegacyStatsFile({ version: 1, models: { scribe_v1: v0, broken: { nope: true } } })
+    expect(Object.keys(models)).toEqual(['scribe_v1'])
+    expect(models.scribe_v1.totalJobs).toBe(4)
+  })
+
+  it('reads v2 files holding one model', () => {
+    const models = parseLegacyStatsFile({ version: 2, model: 'elevenlabs:scribe_v1', stats: v0 })
+    expect(models['elevenlabs:scribe_v1']).toMatchObject(v0)
+  })
+
+  it('defaults the model of v2 files that do not name one', () => {
+    expect(Object.keys(parseLegacyStatsFile({ version: 2, model: '', stats: v0 }))).toEqual(['elevenlabs:scribe_v2'])
+  })
+
+  it('reads v3 files keyed by provider and model', () => {
+    const models = parseLegacyStatsFile({
+      version: 3,
+      models: { 'elevenlabs:scribe_v2': v0, 'openai:whisper-1': { ...v0, totalJobs: 9 } },
+    })
+    expect(models['openai:whisper-1'].totalJobs).toBe(9)
+    expect(models['elevenlabs:scribe_v2'].totalJobs).toBe(4)
+  })
+
+  it('ignores files it does not recognize', () => {
+    expect(parseLegacyStatsFile(null)).toEqual({})
+    expect(parseLegacyStatsFile([])).toEqual({})
+    expect(parseLegacyStatsFile({ version: 4, models: { a: v0 } })).toEqual({})
+    expect(parseLegacyStatsFile({ version: 2, stats: { nope: true } })).toEqual({})
+  })
+})
+
+describe('getStatsMessage', () => {
+  it('aggregates the job log of one user', () => {
+    // Nobody else in the suite uses this user id, so the log holds only these jobs.
+    const job = { chatId: 9001, userId: 9001, mediaType: 'voice' as const }
+    for (const totalMs of [1_000, 2_000, 3_000, 4_000])
+      recordJob('elevenlabs:scribe_v2', job, { success: true, totalMs, audioSec: 30 })
+    recordJob('elevenlabs:scribe_v2', job, { success: true, cached: true, audioSec: 30 })
+    recordJob('elevenlabs:scribe_v2', job, { success: false, totalMs: 10_000, errorKind: 'timeout' })
+    recordJob('openai:whisper-1', job, { success: true, totalMs: 5_000, audioSec: 60, chunks: [{ asrMs: 1, audioSec: 30 }, { asrMs: 1, audioSec: 30 }] })
+
+    const message = getStatsMessage('elevenlabs:scribe_v2', { windowMs: 3_600_000, userId: 9001, label: 'last 1h' })
+    const lines = message.split('\n')
+    expect(lines[0]).toBe('Stats (your jobs, last 1h), current model elevenlabs:scribe_v2')
+    expect(lines).toContain('Jobs: 7 (6 ok, 1 failed, 86% success)')
+    expect(lines).toContain('Cache: 1 of 6 completed jobs (17% hit rate)')
+    expect(lines).toContain('Audio: 3.5 min')
+    expect(lines).toContain('Latency p50/p95: total 3.0s/10.0s')
+    expect(lines).toContain('Chunked: 1 long jobs, 2 chunks')
+    expect(lines).toContain('Failures: timeout 1')
+    expect(lines).toContain('Models: elevenlabs:scribe_v2 (6), openai:whisper-1 (1)')
+    expect(message).toMatch(/\d{4}-\d{2}-\d{2} +7 +86% +3\.5m +3\.0s +10\.0s<\/pre>$/)
+  })
+
+  it('reports when there is nothing to show', () => {
+    expect(getStatsMessage('elevenlabs:scribe_v2', { windowMs: null, userId: 9002, label: 'all time' }))
+      .toBe('No transcriptions (your jobs, all time). Send a voice, audio, or video message.')
+  })
+})
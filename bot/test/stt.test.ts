@@ -0,0 +1,83 @@
+import path from 'node:path'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { JobError } from '../src/errors'
+import { getSttProvider } from '../src/stt'
+import { resetFakes, stt, tmpDir } from './harness'
+
+const audioPath = path.join(tmpDir, 'stt-input.wav')
+await Bun.write(audioPath, new Uint8Array(2048))
+
+async function transcribeError(timeoutMs = 5_000) {
+  try {
+    await getSttProvider().transcribe(audioPath, timeoutMs)
+  }
+  catch (error) {
+    expect(error).toBeInstanceOf(JobError)
+    return error as JobError
+  }
+  throw new Error('expected the transcription to fail')
+}
+
+describe('elevenlabs provider', () => {
+  beforeEach(resetFakes)
+
+  it('uploads the audio with the model and language', async () => {
+    const result = await getSttProvider().transcribe(audioPath, 5_000, { language: 'it', diarize: true })
+    expect(result).toMatchObject({ text: 'hello from the fake provider', language: 'en' })
+    expect(stt.requests).toHaveLength(1)
+    expect(stt.requests[0]).toMatchObject({
+      fields: { model_id: 'scribe_v2', language_code: 'it', diarize: 'true' },
+      fileName: 'audio.wav',
+      fileBytes: 2048,
+    })
+  })
+
+  it('retries quota errors after Retry-After', async () => {
+    stt.respondWith({ status: 429, headers: { 'Retry-After': '0' } })
+    const result = await getSttProvider().transcribe(audioPath, 5_000)
+    expect(result.text).toBe('hello from the fake provider')
+    expect(stt.requests).toHaveLength(2)
+  })
+
+  it('gives up on unavailable providers after its retries', async () => {
+    const unavailable = { status: 503, headers: { 'Retry-After': '0' } }
+    stt.respondWith(unavailable, unavailable, unavailable)
+    const error = await transcribeError()
+    expect(error.kind).toBe('provider_unavailable')
+    expect(error.status).toBe(503)
+    expect(stt.requests).toHaveLength(3)
+  })
+
+  it('does not wait for a Retry-After beyond a minute', async () => {
+    stt.respondWith({ status: 429, headers: { 'Retry-After': '120' } })
+    expect((await transcribeError()).kind).toBe('provider_quota')
+    expect(stt.requests).toHaveLength(1)
+  })
+
+  it('does not retry when the account is out of credit', async () => {
+    stt.respondWith({ status: 402, headers: { 'Retry-After': '0' } })
+    expect((await transcribeError()).kind).toBe('provider_billing')
+    expect(stt.requests).toHaveLength(1)
+  })
+
+  it('fails auth and rejected requests without retrying', async () => {
+    stt.respondWith({ status: 401, body: { detail: 'invalid key' } })
+    expect((await transcribeError()).kind).toBe('provider_auth')
+
+    stt.respondWith({ status: 422, body: { detail: 'unsupported audio' } })
+    const rejected = await transcribeError()
+    expect(rejected.kind).toBe('provider_rejected')
+    expect(rejected.message).toContain('unsupported audio')
+    expect(stt.requests).toHaveLength(2)
+  })
+
+  it('retries a timed out request once', async () => {
+    stt.respondWith({ delayMs: 500 }, { delayMs: 500 })
+    expect((await transcribeError(100)).kind).toBe('timeout')
+    expect(stt.requests).toHaveLength(2)
+  })
+
+  it('checks the key against the models endpoint', async () => {
+    await getSttProvider().checkAuth(5_000)
+  })
+})
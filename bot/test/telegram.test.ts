@@ -0,0 +1,192 @@
+import type { QueuedJob } from '../src/queue'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { Api } from 'grammy'
+import { JobError } from '../src/errors'
+import { estimateAsrTimeoutMs, estimateDownloadTimeoutMs, handleAudio, rejectAudioJob } from '../src/telegram'
+import { makeFixture, MAX_FILE_MB, resetFakes, skipFfmpeg, stt, telegram } from './harness'
+
+const MB = 1024 * 1024
+const NO_HINTS = { avgAsrMsPerAudioSec: 0, asrRateJobs: 0, avgDownloadMsPerMb: 0, downloadRateJobs: 0 }
+
+const api = new Api(telegram.token, { apiRoot: telegram.apiRoot })
+let nextJobId = 1
+
+function makeJob(overrides: Partial<QueuedJob> = {}): QueuedJob {
+  const id = nextJobId++
+  return {
+    id,
+    status: 'running',
+    attempts: 1,
+    error: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    chatId: 42,
+    userId: 42,
+    messageId: 100 + id,
+    fileId: `file-${id}`,
+    fileUniqueId: `unique-${id}`,
+    mediaType: 'voice',
+    ...overrides,
+  }
+}
+
+async function handleAudioError(job: QueuedJob) {
+  try {
+    await handleAudio(api, job, new AbortController().signal)
+  }
+  catch (error) {
+    expect(error).toBeInstanceOf(JobError)
+    return error as JobError
+  }
+  throw new Error('expected the job to fail')
+}
+
+/** Text of the last status message edit, or the status message itself. */
+function lastStatus() {
+  const statuses = telegram.calls.filter(call => call.method === 'editMessageText' || call.method === 'sendMessage')
+  return statuses[statuses.length - 1]?.params.text as string | undefined
+}
+
+function sentTexts() {
+  return telegram.calls.filter(call => call.method === 'sendMessage').map(call => call.params.text as string)
+}
+
+describe('rejectAudioJob', () => {
+  it('accepts voice messages, audio and video', () => {
+    for (const mediaType of ['voice', 'audio', 'video', 'video_note'] as const)
+      expect(rejectAudioJob(makeJob({ mediaType }))).toBeNull()
+  })
+
+  it('accepts documents with an audio or video MIME type or extension', () => {
+    for (const mimeType of ['audio/mpeg', 'video/mp4', 'application/ogg'])
+      expect(rejectAudioJob(makeJob({ mediaType: 'document', mimeType }))).toBeNull()
+    for (const fileName of ['memo.OGG', 'talk.opus', 'clip.mkv', 'call.webm'])
+      expect(rejectAudioJob(makeJob({ mediaType: 'document', fileName }))).toBeNull()
+  })
+
+  it('rejects other documents', () => {
+    const refusal = 'Please send a voice message, audio file, or video.'
+    expect(rejectAudioJob(makeJob({ mediaType: 'document', mimeType: 'application/pdf', fileName: 'memo.pdf' }))).toBe(refusal)
+    expect(rejectAudioJob(makeJob({ mediaType: 'document', fileName: 'notes.txt' }))).toBe(refusal)
+    expect(rejectAudioJob(makeJob({ mediaType: 'document' }))).toBe(refusal)
+  })
+
+  it('rejects files above the size limit', () => {
+    expect(rejectAudioJob(makeJob({ fileSize: MAX_FILE_MB * MB }))).toBeNull()
+    expect(rejectAudioJob(makeJob({ fileSize: 2.5 * MB }))).toBe(`Too big (2.5MB). Max is ${MAX_FILE_MB}MB.`)
+  })
+})
+
+describe('timeout estimation', () => {
+  it('uses the base timeout when the length is unknown', () => {
+    expect(estimateAsrTimeoutMs(undefined, NO_HINTS)).toBe(120_000)
+    expect(estimateDownloadTimeoutMs(0, NO_HINTS)).toBe(120_000)
+    expect(estimateDownloadTimeoutMs(Number.NaN, NO_HINTS)).toBe(120_000)
+  })
+
+  it('scales with the audio length and size', () => {
+    // 60 s at the fallback 1200 ms per second, times 1.8, plus 15 s.
+    expect(estimateAsrTimeoutMs(60, NO_HINTS)).toBe(144_600)
+    // 100 MB at the fallback 1500 ms per MB, times 1.8, plus 5 s.
+    expect(estimateDownloadTimeoutMs(100, NO_HINTS)).toBe(275_000)
+  })
+
+  it('prefers learned rates once there are jobs behind them', () => {
+    expect(estimateAsrTimeoutMs(600, { ...NO_HINTS, avgAsrMsPerAudioSec: 100, asrRateJobs: 3 })).toBe(123_000)
+    expect(estimateAsrTimeoutMs(600, { ...NO_HINTS, avgAsrMsPerAudioSec: 100, asrRateJobs: 0 })).toBe(1_311_000)
+    expect(estimateDownloadTimeoutMs(100, { ...NO_HINTS, avgDownloadMsPerMb: 1000, downloadRateJobs: 1 })).toBe(185_000)
+  })
+
+  it('never exceeds the configured maximum', () => {
+    expect(estimateAsrTimeoutMs(10 * 3600, NO_HINTS)).toBe(1_800_000)
+    expect(estimateDownloadTimeoutMs(2000, NO_HINTS)).toBe(600_000)
+  })
+})
+
+describe('handleAudio', () => {
+  beforeEach(resetFakes)
+
+  it('reports files the Bot API refuses to serve as too large', async () => {
+    const job = makeJob()
+    telegram.addFile(job.fileId, { bytes: new Uint8Array(16), tooBig: true })
+    const error = await handleAudioError(job)
+    expect(error.kind).toBe('too_large')
+    expect(lastStatus()).toBe(`Job #${job.id} failed: Too big. Max is ${MAX_FILE_MB}MB.`)
+    expect(stt.requests).toHaveLength(0)
+  })
+
+  it('stops downloads above the size limit', async () => {
+    const job = makeJob()
+    telegram.addFile(job.fileId, { bytes: new Uint8Array(2 * MB) })
+    const error = await handleAudioError(job)
+    expect(error.kind).toBe('too_large')
+    expect(error.userMessage).toBe(`Too big (2.0MB). Max is ${MAX_FILE_MB}MB.`)
+    expect(stt.requests).toHaveLength(0)
+  })
+
+  it('classifies unknown files as download failures', async () => {
+    const error = await handleAudioError(makeJob({ fileId: 'missing' }))
+    expect(error.kind).toBe('download')
+    expect(lastStatus()).toContain('I could not download the file from Telegram.')
+  })
+
+  it.skipIf(skipFfmpeg)('transcribes a voice message and answers repeats from the cache', async () => {
+    const job = makeJob({ duration: 2 })
+    const bytes = await Bun.file(makeFixture('voice-440.ogg')).bytes()
+    telegram.addFile(job.fileId, { bytes })
+
+    await handleAudio(api, job, new AbortController().signal)
+    expect(stt.requests).toHaveLength(1)
+    expect(stt.requests[0].fileBytes).toBeGreaterThan(44)
+    expect(sentTexts()).toContain('hello from the fake provider')
+    expect(lastStatus()).toMatch(new RegExp(`^Job #${job.id} done in`))
+
+    // A forward carries the same bytes under a new file_unique_id.
+    const forward = makeJob()
+    telegram.addFile(forward.fileId, { bytes })
+    await handleAudio(api, forward, new AbortController().signal)
+    expect(stt.requests).toHaveLength(1)
+    expect(sentTexts().filter(text => text === 'hello from the fake provider')).toHaveLength(2)
+  })
+
+  it.skipIf(skipFfmpeg)('transcribes audio documents picked by their file name', async () => {
+    const job = makeJob({ mediaType: 'document', fileName: 'interview.mkv' })
+    telegram.addFile(job.fileId, {
+      bytes: await Bun.file(makeFixture('interview.mkv', { input: 'sine=frequency=523:duration=2', args: ['-c:a', 'flac'] })).bytes(),
+      filePath: 'documents/interview.mkv',
+    })
+
+    await handleAudio(api, job, new AbortController().signal)
+    expect(stt.requests).toHaveLength(1)
+    expect(sentTexts()).toContain('hello from the fake provider')
+  })
+
+  it.skipIf(skipFfmpeg)('retries the provider after a rate limit', async () => {
+    const job = makeJob()
+    telegram.addFile(job.fileId, { bytes: await Bun.file(makeFixture('voice-660.ogg', { input: 'sine=frequency=660:duration=2' })).bytes() })
+    stt.respondWith({ status: 429, headers: { 'Retry-After': '0' } })
+
+    await handleAudio(api, job, new AbortController().signal)
+    expect(stt.requests).toHaveLength(2)
+    expect(sentTexts()).toContain('hello from the fake provider')
+  })
+
+  it.skipIf(skipFfmpeg)('tells the user when the provider rejects the key', async () => {
+    const job = makeJob()
+    telegram.addFile(job.fileId, { bytes: await Bun.file(makeFixture('voice-880.ogg', { input: 'sine=frequency=880:duration=2' })).bytes() })
+    stt.respondWith({ status: 401 })
+
+    expect((await handleAudioError(job)).kind).toBe('provider_auth')
+    expect(stt.requests).toHaveLength(1)
+    expect(lastStatus()).toContain('The transcription service rejected my credentials.')
+  })
+
+  it.skipIf(skipFfmpeg)('rejects files without an audio track', async () => {
+    const job = makeJob({ mediaType: 'video' })
+    const video = makeFixture('silent.mp4', { input: 'color=size=64x64:duration=1', args: ['-c:v', 'mpeg4'] })
+    telegram.addFile(job.fileId, { bytes: await Bun.file(video).bytes(), filePath: 'videos/silent.mp4' })
+
+    expect((await handleAudioError(job)).kind).toBe('no_audio')
+    expect(stt.requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test'
+import { stitchTranscripts } from '../src/transcript'
+
+describe('stitchTranscripts', () => {
+  it('drops the words repeated in the overlap', () => {
+    expect(stitchTranscripts(['we should ship it on friday', 'ship it on friday after the review']))
+      .toBe('we should ship it on friday after the review')
+  })
+
+  it('tolerates garbled words at the chunk edges', () => {
+    expect(stitchTranscripts(['we should ship it on the friday tr', 'ip it on the friday train home']))
+      .toBe('we should ship it on the friday train home')
+  })
+
+  it('drops one or two repeated words right at the boundary', () => {
+    expect(stitchTranscripts(['I was about to leave. Then I', 'Then I saw the message.']))
+      .toBe('I was about to leave. Then I saw the message.')
+    expect(stitchTranscripts(['and that was it. Okay.', 'Okay. Next item.']))
+      .toBe('and that was it. Okay. Next item.')
+  })
+
+  it('keeps short repeats that are not at the boundary', () => {
+    expect(stitchTranscripts(['Then I left early', 'and then I came back']))
+      .toBe('Then I left early and then I came back')
+  })
+
+  it('skips empty chunks', () => {
+    expect(stitchTranscripts(['first part', '  ', 'second part'])).toBe('first part second part')
+  })
+})